@@ -0,0 +1,66 @@
+/**
+ * Splits a generated 50k-line diff the way a too big diff is split into requests, and fails when
+ * it takes longer than a few seconds or a chunk doesn't fit. Run with `pnpm benchmark`.
+ */
+import { performance } from 'node:perf_hooks';
+
+import { mergeDiffs, splitDiff } from '../src/utils/merge-diffs';
+import { tokenCount } from '../src/utils/token-count';
+
+const LINE_COUNT = 50_000;
+const MAX_TOKENS = 4096;
+// counting the growing concatenations took minutes, with each line counted once it's a few seconds
+const MAX_SECONDS = 10;
+
+// many small files and a single huge one, which has to be split by lines
+const generateDiff = () => {
+  const files: string[] = [];
+  const hugeFileLineCount = LINE_COUNT / 2;
+
+  for (let index = 0; files.length * 100 < LINE_COUNT - hugeFileLineCount; index++) {
+    const lines = Array.from(
+      { length: 96 },
+      (_, line) => `+export const value${index}_${line} = computeValue(${line}, 'file ${index}');`
+    );
+    files.push(
+      `a/src/file-${index}.ts b/src/file-${index}.ts\n--- a/src/file-${index}.ts\n+++ b/src/file-${index}.ts\n@@ -0,0 +1,96 @@\n${lines.join('\n')}\n`
+    );
+  }
+
+  const hugeFileLines = Array.from(
+    { length: hugeFileLineCount },
+    (_, line) =>
+      `+  { id: ${line}, name: 'row ${line}', checksum: '${(line * 7919).toString(36)}' },`
+  );
+  files.push(
+    `a/data.ts b/data.ts\n@@ -0,0 +1,${hugeFileLineCount} @@\n${hugeFileLines.join('\n')}`
+  );
+
+  return files;
+};
+
+const fileDiffs = generateDiff();
+
+const start = performance.now();
+
+const chunks = mergeDiffs(fileDiffs, MAX_TOKENS).flatMap((chunk) =>
+  tokenCount(chunk) > MAX_TOKENS ? splitDiff(chunk, MAX_TOKENS) : [chunk]
+);
+
+const seconds = (performance.now() - start) / 1000;
+
+const oversizedChunks = chunks.filter((chunk) => tokenCount(chunk) > MAX_TOKENS);
+
+console.log(
+  `Split ${LINE_COUNT} lines into ${chunks.length} chunks of at most ${MAX_TOKENS} tokens in ${seconds.toFixed(2)}s`
+);
+
+if (seconds > MAX_SECONDS) {
+  console.error(`Splitting took longer than ${MAX_SECONDS}s`);
+  process.exitCode = 1;
+}
+
+if (oversizedChunks.length > 0) {
+  console.error(`${oversizedChunks.length} chunks have more than ${MAX_TOKENS} tokens`);
+  process.exitCode = 1;
+}
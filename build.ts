@@ -30,6 +30,17 @@ await build({
   skipNodeModulesBundle: true
 });
 
+// the programmatic API, published next to the CLI bin
+await build({
+  clean: false,
+  dts: true,
+  entry: ['src/index.ts'],
+  format: ['esm'],
+  skipNodeModulesBundle: true,
+  sourcemap: true,
+  watch: options.watch
+});
+
 if (options.copyTiktoken) {
   const tokenInputPath = path.resolve('node_modules/@dqbd/tiktoken/lite/tiktoken_bg.wasm');
   const tokenOutputPath = path.resolve('dist/tiktoken_bg.wasm');
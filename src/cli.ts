@@ -1,33 +1,150 @@
 #!/usr/bin/env node
 
+import chalk from 'chalk';
 import { cli } from 'cleye';
+import * as dotenv from 'dotenv';
+
+import { intro, outro } from '@clack/prompts';
 
 import packageJSON from '../package.json';
+import { amendCommand } from './commands/amend';
+import { cacheCommand } from './commands/cache';
 import { commit } from './commands/commit';
 import { commitlintConfigCommand } from './commands/commitlint';
-import { configCommand } from './commands/config';
+import { type ConfigType, configCommand, getConfig, withConfigOverrides } from './commands/config';
 import { hookCommand, isHookCalled } from './commands/githook.js';
 import { prepareCommitMessageHook } from './commands/prepare-commit-message-hook';
+import { PRINT_FORMATS, printCommitMessage } from './commands/print';
+import { rewordCommand } from './commands/reword';
+import { splitCommand } from './commands/split';
+import { usageCommand } from './commands/usage';
+import { MissingApiKeyError } from './errors';
 import { checkIsLatestVersion } from './utils/check-is-latest-version';
+import { getMissingApiKey, getProvider } from './utils/engine';
+import { setUsageCommand, USAGE_COMMAND } from './utils/usage';
+
+dotenv.config();
 
 const extraArguments = process.argv.slice(2);
 
+// fail before staging anything when the config can't generate a message
+const assertConfig = (configOverrides: ConfigType) => {
+  try {
+    const config = withConfigOverrides(getConfig(), configOverrides);
+    const missingApiKey = getMissingApiKey(config);
+
+    if (missingApiKey) throw new MissingApiKeyError(missingApiKey, getProvider(config));
+  } catch (error) {
+    intro('opencommit');
+    outro(`${chalk.red('✖')} ${error instanceof Error ? error.message : error}`);
+    outro('For help look into README https://github.com/bodrick/opencommit#setup');
+    process.exit(1);
+  }
+};
+
 cli(
   {
-    commands: [configCommand, hookCommand, commitlintConfigCommand],
-    flags: {},
+    commands: [
+      configCommand,
+      hookCommand,
+      commitlintConfigCommand,
+      cacheCommand,
+      usageCommand,
+      splitCommand,
+      amendCommand,
+      rewordCommand
+    ],
+    flags: {
+      all: {
+        alias: 'a',
+        description: 'Stage all changed files before generating the message',
+        type: Boolean
+      },
+      candidates: {
+        description: 'Generate several commit messages to pick from',
+        type: Number
+      },
+      context: {
+        alias: 'c',
+        description: 'Why the changes were made, added to the prompt',
+        type: String
+      },
+      dryRun: {
+        description: 'Print the generated message without committing',
+        type: Boolean
+      },
+      json: {
+        description: 'Print the message and what it was generated from as JSON, without committing',
+        type: Boolean
+      },
+      language: {
+        description: 'Language of the message for this run, overrides OCO_LANGUAGE',
+        type: String
+      },
+      model: {
+        description: 'Model to use for this run, overrides OCO_MODEL',
+        type: String
+      },
+      noCache: {
+        description: 'Ignore previously generated messages and ask the AI provider again',
+        type: Boolean
+      },
+      print: {
+        description: 'Print only the message, without committing',
+        type: Boolean
+      },
+      yes: {
+        alias: 'y',
+        description: 'Commit the generated message and push without asking',
+        type: Boolean
+      }
+    },
     help: { description: packageJSON.description },
     ignoreArgv: (type) => type === 'unknown-flag' || type === 'argument',
     name: 'opencommit',
     version: packageJSON.version
   },
-  async () => {
+  async ({ flags }) => {
+    const configOverrides = { OCO_LANGUAGE: flags.language, OCO_MODEL: flags.model };
+    const isPrinting = flags.json || flags.print;
+
+    if (
+      flags.candidates !== undefined &&
+      !(Number.isInteger(flags.candidates) && flags.candidates > 0)
+    ) {
+      if (isPrinting) process.stderr.write('--candidates must be a positive number\n');
+      else outro(`${chalk.red('✖')} --candidates must be a positive number`);
+      process.exit(1);
+    }
+
+    // stdout is read by a script or an editor, nothing but the message may end up there
+    if (isPrinting) {
+      await printCommitMessage({
+        candidates: flags.candidates,
+        configOverrides,
+        context: flags.context,
+        format: flags.json ? PRINT_FORMATS.json : PRINT_FORMATS.text,
+        stageAll: flags.all,
+        useCache: !flags.noCache
+      });
+      return;
+    }
+
     await checkIsLatestVersion();
+    assertConfig(configOverrides);
 
     if (await isHookCalled()) {
+      setUsageCommand(USAGE_COMMAND.hook);
       prepareCommitMessageHook();
     } else {
-      commit(extraArguments);
+      commit(extraArguments, flags.all, {
+        candidates: flags.candidates,
+        configOverrides,
+        context: flags.context,
+        dryRun: flags.dryRun,
+        skipConfirmation: flags.yes,
+        useCache: !flags.noCache
+      });
     }
   },
   extraArguments
@@ -1,5 +1,10 @@
 export enum COMMANDS {
   config = 'config',
   hook = 'hook',
-  commitlint = 'commitlint'
+  commitlint = 'commitlint',
+  cache = 'cache',
+  usage = 'usage',
+  split = 'split',
+  amend = 'amend',
+  reword = 'reword'
 }
@@ -0,0 +1,94 @@
+import chalk from 'chalk';
+import { command } from 'cleye';
+import { execa } from 'execa';
+
+import { intro, outro } from '@clack/prompts';
+
+import { COMMANDS } from '../commands-enum';
+import { getErrorMessage } from '../errors';
+import { generateCommitMessageCandidatesByDiff } from '../generate-commit-message-from-git-diff';
+import {
+  addTrailers,
+  assertGitRepo,
+  getCommitTrailers,
+  getDiff,
+  getParentCommit,
+  getStagedFiles
+} from '../utils/git';
+import { pushCommits } from '../utils/push';
+import { protectDiff } from '../utils/secrets';
+import { setUsageCommand, USAGE_COMMAND } from '../utils/usage';
+import { reviewCommitMessage, type ReviewGenerateOptions } from './commit';
+import { getConfig } from './config';
+
+const amendCommit = async () => {
+  await assertGitRepo();
+  const config = getConfig() ?? {};
+
+  const { exitCode } = await execa('git', ['rev-parse', '--verify', '--quiet', 'HEAD'], {
+    reject: false
+  });
+  if (exitCode !== 0) throw new Error('There is no commit to amend yet');
+
+  // HEAD's changes and whatever is staged on top of them, like `git commit --amend` will commit
+  const base = await getParentCommit();
+  const files = await getStagedFiles({ base });
+
+  if (files.length === 0) {
+    outro('Neither HEAD nor the staged changes change any files, there is nothing to describe');
+    return;
+  }
+
+  const { stdout: currentMessage } = await execa('git', ['log', '-1', '--format=%B']);
+  const trailers = await getCommitTrailers();
+
+  outro(`Current commit message:
+${chalk.grey('——————————————————')}
+${currentMessage}
+${chalk.grey('——————————————————')}`);
+
+  const diff = protectDiff(await getDiff({ base, files }), config);
+
+  const commitMessage = await reviewCommitMessage(async (options: ReviewGenerateOptions) => {
+    const commitMessages = await generateCommitMessageCandidatesByDiff(
+      diff,
+      config.OCO_CANDIDATES ?? 1,
+      { ...options, config }
+    );
+
+    return commitMessages.map((commitMessage) => addTrailers(commitMessage, trailers));
+  }, true);
+
+  if (!commitMessage) {
+    outro(`${chalk.gray('✖')} Amend aborted, HEAD is unchanged`);
+    return;
+  }
+
+  // --amend keeps the author and the author date, only the committer changes
+  const { stdout } = await execa('git', ['commit', '--amend', '-m', commitMessage]);
+
+  outro(`${chalk.green('✔')} Successfully amended`);
+  outro(stdout);
+
+  const isPushed = await pushCommits(config, { amended: true });
+  if (!isPushed) process.exit(1);
+};
+
+export const amendCommand = command(
+  {
+    help: {
+      description: 'Generate a new message for the last commit, including the staged changes'
+    },
+    name: COMMANDS.amend
+  },
+  async () => {
+    intro('opencommit — amend');
+    setUsageCommand(USAGE_COMMAND.amend);
+    try {
+      await amendCommit();
+    } catch (error) {
+      outro(`${chalk.red('✖')} ${getErrorMessage(error)}`);
+      process.exit(1);
+    }
+  }
+);
@@ -0,0 +1,35 @@
+import chalk from 'chalk';
+import { command } from 'cleye';
+
+import { intro, outro } from '@clack/prompts';
+
+import { COMMANDS } from '../commands-enum';
+import { clearCache } from '../utils/cache';
+
+export enum CACHE_MODES {
+  clear = 'clear'
+}
+
+export const cacheCommand = command(
+  {
+    name: COMMANDS.cache,
+    parameters: ['<mode>']
+  },
+  (argv) => {
+    intro('opencommit — cache');
+    try {
+      const { mode } = argv._;
+
+      if (mode === CACHE_MODES.clear) {
+        const count = clearCache();
+        outro(`${chalk.green('✔')} Removed ${count} cached commit messages`);
+        return;
+      }
+
+      throw new Error(`Unsupported mode: ${mode}. Valid modes are: "clear"`);
+    } catch (error) {
+      outro(`${chalk.red('✖')} ${error}`);
+      process.exit(1);
+    }
+  }
+);
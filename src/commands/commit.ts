@@ -1,131 +1,340 @@
 import chalk from 'chalk';
 import { execa } from 'execa';
 
-import { confirm, intro, isCancel, multiselect, outro, select, spinner } from '@clack/prompts';
-
-import { generateCommitMessageByDiff } from '../generate-commit-message-from-git-diff';
-import { assertGitRepo, getChangedFiles, getDiff, getStagedFiles, gitAdd } from '../utils/git';
+import { intro, isCancel, multiselect, outro, select, spinner, text } from '@clack/prompts';
+
+import { getErrorMessage } from '../errors';
+import { generateCommitMessageCandidatesByDiff } from '../generate-commit-message-from-git-diff';
+import {
+  assertGitRepo,
+  editMessageInEditor,
+  getChangedFiles,
+  getDiff,
+  getStagedFiles,
+  gitAdd,
+  useTemporaryIndex
+} from '../utils/git';
+import { formatHunk, getUnstagedHunks, type Hunk, stageHunks } from '../utils/hunks';
+import { pushCommits } from '../utils/push';
+import { protectDiff } from '../utils/secrets';
 import { trytm } from '../utils/trytm';
-import { getConfig } from './config';
-
-const config = getConfig();
-
-const getGitRemotes = async () => {
-  const { stdout } = await execa('git', ['remote']);
-  return stdout.split('\n').filter((remote) => Boolean(remote.trim()));
-};
+import { type ConfigType, getConfig, withConfigOverrides } from './config';
 
 // Check for the presence of message templates
-const checkMessageTemplate = (extraArguments: string[]): string | false => {
+const checkMessageTemplate = (
+  extraArguments: string[],
+  placeholder: string | undefined
+): string | false => {
+  if (!placeholder) return false;
+
   for (const key in extraArguments) {
-    if (extraArguments[key].includes(config?.OCO_MESSAGE_TEMPLATE_PLACEHOLDER))
-      return extraArguments[key];
+    if (extraArguments[key].includes(placeholder)) return extraArguments[key];
   }
   return false;
 };
 
-const generateCommitMessageFromGitDiff = async (
-  diff: string,
-  extraArguments: string[]
-): Promise<void> => {
-  await assertGitRepo();
+export enum REVIEW_ACTIONS {
+  commit = 'commit',
+  edit = 'edit',
+  regenerate = 'regenerate',
+  hint = 'hint',
+  context = 'context'
+}
+
+export enum STAGE_ACTIONS {
+  all = 'all',
+  files = 'files',
+  hunks = 'hunks'
+}
+
+export enum HUNK_ACTIONS {
+  stage = 'stage',
+  skip = 'skip',
+  stageFile = 'stageFile',
+  skipFile = 'skipFile',
+  done = 'done'
+}
+
+export interface ReviewGenerateOptions {
+  cache: boolean;
+  context?: string;
+  hint?: string;
+  onToken: (token: string) => void;
+}
+
+// resolves to one or more candidate messages
+type ReviewGenerate = (options: ReviewGenerateOptions) => Promise<string[]>;
+
+const generateWithSpinner = async (
+  generate: ReviewGenerate,
+  options: Omit<ReviewGenerateOptions, 'onToken'>
+) => {
   const commitSpinner = spinner();
   commitSpinner.start('Generating the commit message');
 
-  try {
-    let commitMessage = await generateCommitMessageByDiff(diff);
-
-    const messageTemplate = checkMessageTemplate(extraArguments);
-    if (config?.OCO_MESSAGE_TEMPLATE_PLACEHOLDER && typeof messageTemplate === 'string') {
-      commitMessage = messageTemplate.replace(
-        config?.OCO_MESSAGE_TEMPLATE_PLACEHOLDER,
-        commitMessage
-      );
+  let isStreaming = false;
+  const streamToken = (token: string) => {
+    if (!isStreaming) {
+      isStreaming = true;
+      commitSpinner.stop('📝 Generating the commit message');
+      process.stdout.write(`${chalk.grey('│')}\n`);
     }
 
-    commitSpinner.stop('📝 Commit message generated');
+    process.stdout.write(chalk.grey(token));
+  };
 
-    outro(
-      `Generated commit message:
+  try {
+    return await generate({ ...options, onToken: streamToken });
+  } finally {
+    if (isStreaming) process.stdout.write('\n');
+    else commitSpinner.stop('📝 Commit message generated');
+  }
+};
+
+const showCommitMessage = (commitMessage: string) =>
+  outro(
+    `Generated commit message:
 ${chalk.grey('——————————————————')}
 ${commitMessage}
 ${chalk.grey('——————————————————')}`
-    );
+  );
 
-    const isCommitConfirmedByUser = await confirm({
-      message: 'Confirm the commit message?'
-    });
+const pickCandidate = async (candidates: string[]): Promise<string | symbol> => {
+  if (candidates.length === 1) return candidates[0];
 
-    if (isCommitConfirmedByUser && !isCancel(isCommitConfirmedByUser)) {
-      const { stdout } = await execa('git', ['commit', '-m', commitMessage, ...extraArguments]);
+  outro(
+    candidates
+      .map(
+        (candidate, index) => `${chalk.bold(`Candidate ${index + 1}:`)}
+${chalk.grey('——————————————————')}
+${candidate}`
+      )
+      .join('\n\n')
+  );
 
-      outro(`${chalk.green('✔')} Successfully committed`);
+  return select({
+    message: 'Pick a commit message',
+    options: candidates.map((candidate, index) => ({
+      label: `${index + 1}. ${candidate.split('\n')[0]}`,
+      value: candidate
+    }))
+  });
+};
 
-      outro(stdout);
+/**
+ * Shows the generated message, or lets the user pick one of the candidates, then lets them commit
+ * it, edit it first, or generate another one, optionally with a hint or more context, until they
+ * commit or cancel. Returns the message to commit, or `undefined` when cancelled.
+ */
+export const reviewCommitMessage = async (
+  generate: ReviewGenerate,
+  useCache: boolean,
+  context?: string
+): Promise<string | undefined> => {
+  let generateOptions: Omit<ReviewGenerateOptions, 'onToken'> = { cache: useCache, context };
+
+  for (;;) {
+    const commitMessage = await pickCandidate(await generateWithSpinner(generate, generateOptions));
+    if (isCancel(commitMessage)) return undefined;
+
+    showCommitMessage(commitMessage);
+
+    const action = await select({
+      message: 'What do you want to do with this commit message?',
+      options: [
+        { label: 'Commit', value: REVIEW_ACTIONS.commit },
+        { label: 'Edit, then commit', value: REVIEW_ACTIONS.edit },
+        { label: 'Regenerate', value: REVIEW_ACTIONS.regenerate },
+        { label: 'Regenerate with a hint', value: REVIEW_ACTIONS.hint },
+        { label: 'Add context, then regenerate', value: REVIEW_ACTIONS.context }
+      ]
+    });
 
-      const remotes = await getGitRemotes();
+    if (isCancel(action)) return undefined;
 
-      if (remotes.length === 0) {
-        const { stdout } = await execa('git', ['push']);
-        if (stdout) outro(stdout);
-        process.exit(0);
+    switch (action) {
+      case REVIEW_ACTIONS.commit: {
+        return commitMessage;
       }
 
-      if (remotes.length === 1) {
-        const isPushConfirmedByUser = await confirm({
-          message: 'Do you want to run `git push`?'
+      case REVIEW_ACTIONS.edit: {
+        // an emptied message aborts, like it does for `git commit`
+        const editedMessage = await editMessageInEditor(commitMessage);
+        return editedMessage || undefined;
+      }
+
+      case REVIEW_ACTIONS.hint: {
+        const hint = await text({
+          message: 'What should the new message do differently?',
+          placeholder: 'e.g. mention the ticket ABC-123, keep it shorter'
         });
 
-        if (isPushConfirmedByUser && !isCancel(isPushConfirmedByUser)) {
-          const pushSpinner = spinner();
+        if (isCancel(hint)) return undefined;
 
-          pushSpinner.start(`Running 'git push ${remotes[0]}'`);
+        // a new message is wanted, never serve it from the cache
+        generateOptions = { ...generateOptions, cache: false, hint };
+        break;
+      }
 
-          const { stdout } = await execa('git', ['push', '--verbose', remotes[0]]);
+      case REVIEW_ACTIONS.context: {
+        const addedContext = await text({
+          message: 'Why did you make these changes?',
+          placeholder: 'e.g. the old retry logic hammered the API during outages'
+        });
 
-          pushSpinner.stop(`${chalk.green('✔')} Successfully pushed all commits to ${remotes[0]}`);
+        if (isCancel(addedContext)) return undefined;
 
-          if (stdout) outro(stdout);
-        } else {
-          outro('`git push` aborted');
-          process.exit(0);
-        }
-      } else {
-        const selectedRemote = (await select({
-          message: 'Choose a remote to push to',
-          options: remotes.map((remote) => ({ label: remote, value: remote }))
-        })) as string;
+        generateOptions = {
+          ...generateOptions,
+          cache: false,
+          context: [generateOptions.context, addedContext].filter(Boolean).join('\n')
+        };
+        break;
+      }
 
-        if (isCancel(selectedRemote)) {
-          outro(`${chalk.gray('✖')} process cancelled`);
-        } else {
-          const pushSpinner = spinner();
+      default: {
+        generateOptions = { ...generateOptions, cache: false };
+      }
+    }
+  }
+};
 
-          pushSpinner.start(`Running 'git push ${selectedRemote}'`);
+/**
+ * Walks through the hunks of the unstaged changes one by one, like `git add -p`, and stages the
+ * ones the user picks. Returns false when cancelled, nothing is staged then.
+ */
+const pickHunks = async (files: string[]): Promise<boolean> => {
+  const hunks = await getUnstagedHunks(files);
+  const pickedHunks = new Set<Hunk>();
+  const skippedFiles = new Set<string>();
+
+  for (const [index, hunk] of hunks.entries()) {
+    if (skippedFiles.has(hunk.file)) continue;
+
+    outro(formatHunk(hunk));
+
+    const action = await select({
+      message: `Stage this hunk (${index + 1}/${hunks.length})?`,
+      options: [
+        { label: 'Stage it', value: HUNK_ACTIONS.stage },
+        { label: 'Skip it', value: HUNK_ACTIONS.skip },
+        { label: "Stage it and the file's other hunks", value: HUNK_ACTIONS.stageFile },
+        { label: "Skip it and the file's other hunks", value: HUNK_ACTIONS.skipFile },
+        { label: 'Done, skip the remaining hunks', value: HUNK_ACTIONS.done }
+      ]
+    });
 
-          const { stdout } = await execa('git', ['push', selectedRemote]);
+    if (isCancel(action)) return false;
+    if (action === HUNK_ACTIONS.done) break;
 
-          pushSpinner.stop(
-            `${chalk.green('✔')} Successfully pushed all commits to ${selectedRemote}`
-          );
+    if (action === HUNK_ACTIONS.stage) pickedHunks.add(hunk);
 
-          if (stdout) outro(stdout);
-        }
+    if (action === HUNK_ACTIONS.stageFile) {
+      for (const fileHunk of hunks.slice(index)) {
+        if (fileHunk.file === hunk.file) pickedHunks.add(fileHunk);
       }
     }
-  } catch (error) {
-    commitSpinner.stop('📝 Commit message generated');
 
-    if (error instanceof Error) {
-      outro(`${chalk.red('✖')} ${error.message}`);
+    if (action === HUNK_ACTIONS.stageFile || action === HUNK_ACTIONS.skipFile) {
+      skippedFiles.add(hunk.file);
+    }
+  }
+
+  await stageHunks(hunks, pickedHunks);
+  return true;
+};
+
+export interface CommitOptions {
+  // number of messages to pick from, defaults to `OCO_CANDIDATES` or 1
+  candidates?: number;
+  // per-run config, e.g. `--model` and `--language`
+  configOverrides?: ConfigType;
+  // why the changes were made, added to the prompt
+  context?: string;
+  // print the message instead of committing it, what's staged for it stays unstaged
+  dryRun?: boolean;
+  // commit the first message and push without asking
+  skipConfirmation?: boolean;
+  useCache?: boolean;
+}
+
+const generateCommitMessageFromGitDiff = async (
+  diff: string,
+  extraArguments: string[],
+  {
+    candidates,
+    configOverrides = {},
+    context,
+    dryRun,
+    skipConfirmation,
+    useCache = true
+  }: CommitOptions
+): Promise<void> => {
+  await assertGitRepo();
+  const config = withConfigOverrides(getConfig(), configOverrides);
+
+  const protectedDiff = protectDiff(diff, config);
+
+  const placeholder = config?.OCO_MESSAGE_TEMPLATE_PLACEHOLDER;
+  const messageTemplate = checkMessageTemplate(extraArguments, placeholder);
+
+  const generate = async (options: ReviewGenerateOptions) => {
+    const commitMessages = await generateCommitMessageCandidatesByDiff(
+      protectedDiff,
+      candidates ?? config.OCO_CANDIDATES ?? 1,
+      { ...options, config }
+    );
+
+    return commitMessages.map((commitMessage) =>
+      placeholder && typeof messageTemplate === 'string'
+        ? messageTemplate.replace(placeholder, commitMessage)
+        : commitMessage
+    );
+  };
+
+  try {
+    if (dryRun) {
+      const commitMessages = await generateWithSpinner(generate, { cache: useCache, context });
+      for (const commitMessage of commitMessages) showCommitMessage(commitMessage);
+
+      outro('Dry run, nothing was committed');
+      return;
+    }
+
+    let commitMessage: string | undefined;
+
+    if (skipConfirmation) {
+      [commitMessage] = await generateWithSpinner(generate, { cache: useCache, context });
+      showCommitMessage(commitMessage);
     } else {
-      outro(`${chalk.red('✖')} ${error}`);
+      commitMessage = await reviewCommitMessage(generate, useCache, context);
     }
+
+    if (commitMessage) {
+      const { stdout } = await execa('git', ['commit', '-m', commitMessage, ...extraArguments]);
+
+      outro(`${chalk.green('✔')} Successfully committed`);
+
+      outro(stdout);
+
+      const isPushed = await pushCommits(config, { skipConfirmation });
+      if (!isPushed) process.exit(1);
+    } else {
+      outro(`${chalk.gray('✖')} Commit aborted`);
+    }
+  } catch (error) {
+    outro(`${chalk.red('✖')} ${getErrorMessage(error)}`);
     process.exit(1);
   }
 };
 
-export async function commit(extraArguments: string[] = [], isStageAllFlag = false) {
+export async function commit(
+  extraArguments: string[] = [],
+  isStageAllFlag = false,
+  options: CommitOptions = {}
+) {
+  if (options.dryRun) await useTemporaryIndex();
+
   if (isStageAllFlag) {
     const changedFiles = await getChangedFiles();
 
@@ -156,16 +365,25 @@ export async function commit(extraArguments: string[] = [], isStageAllFlag = fal
 
   if (stagedFiles.length === 0) {
     stagedFilesSpinner.stop('No files are staged');
-    const isStageAllAndCommitConfirmedByUser = await confirm({
-      message: 'Do you want to stage all files and generate commit message?'
-    });
+    const stageAction = options.skipConfirmation
+      ? STAGE_ACTIONS.all
+      : await select({
+          message: 'What do you want to stage to generate the commit message for?',
+          options: [
+            { label: 'All changed files', value: STAGE_ACTIONS.all },
+            { label: 'Some of the files', value: STAGE_ACTIONS.files },
+            { hint: 'like git add -p', label: 'Some of the hunks', value: STAGE_ACTIONS.hunks }
+          ]
+        });
 
-    if (isStageAllAndCommitConfirmedByUser && !isCancel(isStageAllAndCommitConfirmedByUser)) {
-      await commit(extraArguments, true);
+    if (isCancel(stageAction)) process.exit(1);
+
+    if (stageAction === STAGE_ACTIONS.all) {
+      await commit(extraArguments, true, options);
       process.exit(1);
     }
 
-    if (stagedFiles.length === 0 && changedFiles.length > 0) {
+    if (stageAction === STAGE_ACTIONS.files) {
       const files = (await multiselect({
         message: chalk.cyan('Select the files you want to add to the commit:'),
         options: changedFiles.map((file) => ({
@@ -179,7 +397,18 @@ export async function commit(extraArguments: string[] = [], isStageAllFlag = fal
       await gitAdd({ files });
     }
 
-    await commit(extraArguments, false);
+    if (stageAction === STAGE_ACTIONS.hunks) {
+      const isStaged = await pickHunks(changedFiles);
+      if (!isStaged) process.exit(1);
+
+      const hunkStagedFiles = await getStagedFiles();
+      if (hunkStagedFiles.length === 0) {
+        outro(`${chalk.gray('✖')} No hunks were staged`);
+        process.exit(1);
+      }
+    }
+
+    await commit(extraArguments, false, options);
     process.exit(1);
   }
 
@@ -187,7 +416,7 @@ export async function commit(extraArguments: string[] = [], isStageAllFlag = fal
   stagedFilesSpinner.stop(`${stagedFiles.length} staged files:\n${stagedFilesMessage}`);
 
   const [, generateCommitError] = await trytm(
-    generateCommitMessageFromGitDiff(await getDiff({ files: stagedFiles }), extraArguments)
+    generateCommitMessageFromGitDiff(await getDiff({ files: stagedFiles }), extraArguments, options)
   );
 
   if (generateCommitError) {
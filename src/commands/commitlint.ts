@@ -4,8 +4,12 @@ import { command } from 'cleye';
 import { intro, outro } from '@clack/prompts';
 
 import { COMMANDS } from '../commands-enum';
+import { getErrorMessage } from '../errors';
 import { configureCommitlintIntegration } from '../modules/commitlint/config';
 import { getCommitlintLLMConfig } from '../modules/commitlint/utils';
+import { getEngine } from '../utils/engine';
+import { setUsageCommand, USAGE_COMMAND } from '../utils/usage';
+import { getConfig } from './config';
 
 export enum CONFIG_MODES {
   get = 'get',
@@ -19,6 +23,7 @@ export const commitlintConfigCommand = command(
   },
   async (argv) => {
     intro('opencommit — configure @commitlint');
+    setUsageCommand(USAGE_COMMAND.commitlint);
     try {
       const { mode } = argv._;
 
@@ -31,13 +36,14 @@ export const commitlintConfigCommand = command(
       }
 
       if (mode === CONFIG_MODES.force) {
-        await configureCommitlintIntegration(true);
+        const config = getConfig();
+        await configureCommitlintIntegration(config, getEngine(config), true);
         return;
       }
 
       throw new Error(`Unsupported mode: ${mode}. Valid modes are: "force" and "get"`);
     } catch (error) {
-      outro(`${chalk.red('✖')} ${error}`);
+      outro(`${chalk.red('✖')} ${getErrorMessage(error)}`);
       process.exit(1);
     }
   }
@@ -3,12 +3,27 @@ import fs from 'node:fs/promises';
 
 import { intro, outro, spinner } from '@clack/prompts';
 
-import { generateCommitMessageByDiff } from '../generate-commit-message-from-git-diff';
+import { getErrorMessage } from '../errors';
+import { generateCommitMessageCandidatesByDiff } from '../generate-commit-message-from-git-diff';
+import { getMissingApiKey } from '../utils/engine';
 import { getChangedFiles, getDiff, getStagedFiles, gitAdd } from '../utils/git';
+import { protectDiff } from '../utils/secrets';
 import { getConfig } from './config';
 
 const [messageFilePath, commitSource] = process.argv.slice(2);
 
+// git strips `#` lines from the message, the alternatives only show up in the editor
+const formatAlternatives = (alternatives: string[]) =>
+  alternatives
+    .map(
+      (alternative, index) =>
+        `# Alternative ${index + 1}:\n${alternative
+          .split('\n')
+          .map((line) => `#   ${line}`)
+          .join('\n')}\n`
+    )
+    .join('');
+
 export const prepareCommitMessageHook = async (isStageAllFlag = false) => {
   try {
     if (!messageFilePath) {
@@ -37,21 +52,33 @@ export const prepareCommitMessageHook = async (isStageAllFlag = false) => {
 
     const config = getConfig();
 
-    if (!config?.OCO_OPENAI_API_KEY) {
-      throw new Error('No OPEN_AI_API exists. Set your OPEN_AI_API=<key> in ~/.opencommit');
+    const missingApiKey = getMissingApiKey(config);
+
+    if (missingApiKey) {
+      throw new Error(
+        `No ${missingApiKey} exists. Set your ${missingApiKey}=<key> in ~/.opencommit`
+      );
     }
 
+    const diff = protectDiff(await getDiff({ files: staged }), config);
+
     const spin = spinner();
     spin.start('Generating commit message');
 
-    const commitMessage = await generateCommitMessageByDiff(await getDiff({ files: staged }));
+    const [commitMessage, ...alternatives] = await generateCommitMessageCandidatesByDiff(
+      diff,
+      config?.OCO_CANDIDATES ?? 1
+    );
     spin.stop('Done');
 
     const fileContent = await fs.readFile(messageFilePath);
 
-    await fs.writeFile(messageFilePath, commitMessage + '\n' + fileContent.toString());
+    await fs.writeFile(
+      messageFilePath,
+      commitMessage + '\n' + formatAlternatives(alternatives) + fileContent.toString()
+    );
   } catch (error) {
-    outro(`${chalk.red('✖')} ${error}`);
+    outro(`${chalk.red('✖')} ${getErrorMessage(error)}`);
     process.exit(1);
   }
 };
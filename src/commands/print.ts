@@ -0,0 +1,152 @@
+import { execa } from 'execa';
+
+import {
+  GENERATE_COMMIT_MESSAGE_EXIT_CODES,
+  GenerateCommitMessageError,
+  MissingApiKeyError,
+  OpenCommitError
+} from '../errors';
+import { generateCommitMessageCandidatesByDiff } from '../generate-commit-message-from-git-diff';
+import { getActiveModelInfo, getMissingApiKey, getModel, getProvider } from '../utils/engine';
+import {
+  assertGitRepo,
+  getChangedFiles,
+  getDiff,
+  getExcludedFiles,
+  getStagedFiles
+} from '../utils/git';
+import { protectDiff } from '../utils/secrets';
+import { tokenCount } from '../utils/token-count';
+import { setUsageCommand, type TokenUsage, USAGE_COMMAND, watchUsage } from '../utils/usage';
+import { type ConfigType, getConfig, withConfigOverrides } from './config';
+
+export enum PRINT_FORMATS {
+  json = 'json',
+  text = 'text'
+}
+
+export interface PrintOptions {
+  candidates?: number;
+  configOverrides?: ConfigType;
+  context?: string;
+  format: PRINT_FORMATS;
+  // stage all changed files first, without asking
+  stageAll?: boolean;
+  useCache?: boolean;
+}
+
+export interface PrintResult {
+  // more than one only with `--candidates`
+  candidates: string[];
+  // whether the diff was split into several requests because it didn't fit into one
+  chunked: boolean;
+  diffTokens: number;
+  // staged files whose diffs were replaced by a summary line, e.g. lock files and binary files
+  excludedFiles: string[];
+  files: string[];
+  message: string;
+  model: string;
+  provider: string;
+  // summed over every request, zero when the message came from the cache
+  usage: TokenUsage & { requests: number };
+}
+
+// prompt modules and the diff's warnings report progress through @clack/prompts, which writes to
+// stdout, so everything but the result is sent to stderr
+const writeResult = process.stdout.write.bind(process.stdout);
+
+const writeError = (format: PRINT_FORMATS, error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = error instanceof GenerateCommitMessageError ? error.code : undefined;
+  const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : '';
+
+  if (format === PRINT_FORMATS.json) {
+    writeResult(
+      `${JSON.stringify({ error: { cause: cause || undefined, code, message } }, undefined, 2)}\n`
+    );
+  } else {
+    process.stderr.write(`${message}${cause ? `: ${cause}` : ''}\n`);
+  }
+
+  process.exit(code ? GENERATE_COMMIT_MESSAGE_EXIT_CODES[code] : 1);
+};
+
+/**
+ * Generates the message for the staged changes and writes it to stdout without committing or
+ * prompting, as plain text or as JSON with the metadata of the generation. Exits with one of
+ * `GENERATE_COMMIT_MESSAGE_EXIT_CODES` when the generation fails, 1 on any other failure.
+ */
+export async function printCommitMessage({
+  candidates,
+  configOverrides = {},
+  context,
+  format,
+  stageAll = false,
+  useCache = true
+}: PrintOptions): Promise<void> {
+  process.stdout.write = process.stderr.write.bind(process.stderr);
+  setUsageCommand(USAGE_COMMAND.print);
+
+  try {
+    await assertGitRepo();
+    const config = withConfigOverrides(getConfig(), configOverrides);
+
+    const missingApiKey = getMissingApiKey(config);
+    if (missingApiKey) throw new MissingApiKeyError(missingApiKey, getProvider(config));
+
+    if (stageAll) {
+      const changedFiles = await getChangedFiles();
+      if (changedFiles.length > 0) await execa('git', ['add', ...changedFiles]);
+    }
+
+    const files = await getStagedFiles();
+    if (files.length === 0) throw new OpenCommitError('No files are staged');
+
+    const diff = protectDiff(await getDiff({ files, quiet: true }), config);
+
+    const usage = { completionTokens: 0, promptTokens: 0, requests: 0 };
+    const stopWatchingUsage = watchUsage(({ completionTokens, promptTokens }) => {
+      usage.completionTokens += completionTokens;
+      usage.promptTokens += promptTokens;
+      usage.requests += 1;
+    });
+
+    let chunked = false;
+
+    const commitMessages = await generateCommitMessageCandidatesByDiff(
+      diff,
+      candidates ?? config.OCO_CANDIDATES ?? 1,
+      {
+        cache: useCache,
+        config,
+        context,
+        onDiffSplit: () => {
+          chunked = true;
+        }
+      }
+    ).finally(stopWatchingUsage);
+
+    if (format === PRINT_FORMATS.text) {
+      writeResult(`${commitMessages[0]}\n`);
+      return;
+    }
+
+    const excludedFiles = await getExcludedFiles({ files });
+
+    const result: PrintResult = {
+      candidates: commitMessages,
+      chunked,
+      diffTokens: tokenCount(diff, getActiveModelInfo(config).tokenizer),
+      excludedFiles: excludedFiles.map(({ file }) => file),
+      files,
+      message: commitMessages[0],
+      model: getModel(config),
+      provider: getProvider(config),
+      usage
+    };
+
+    writeResult(`${JSON.stringify(result, undefined, 2)}\n`);
+  } catch (error) {
+    writeError(format, error);
+  }
+}
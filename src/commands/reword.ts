@@ -0,0 +1,173 @@
+import chalk from 'chalk';
+import { command } from 'cleye';
+import { execa } from 'execa';
+
+import { intro, isCancel, multiselect, outro, spinner } from '@clack/prompts';
+
+import { COMMANDS } from '../commands-enum';
+import { getErrorMessage } from '../errors';
+import { generateCommitMessageByDiff } from '../generate-commit-message-from-git-diff';
+import {
+  addTrailers,
+  assertGitRepo,
+  getCommitDiff,
+  getCommitTrailers,
+  rewordCommits
+} from '../utils/git';
+import { createScheduler } from '../utils/scheduler';
+import { protectDiff } from '../utils/secrets';
+import { setUsageCommand, USAGE_COMMAND } from '../utils/usage';
+import { getConfig } from './config';
+
+interface RewordedCommit {
+  message: string;
+  sha: string;
+  subject: string;
+}
+
+const getSubject = (message: string) => message.split('\n')[0];
+
+const revParse = async (revision: string) => {
+  const { stdout } = await execa('git', ['rev-parse', '--verify', revision]);
+  return stdout;
+};
+
+/**
+ * The commits of `range`, oldest first. Rewording rebases the current branch, so the range has to
+ * end at `HEAD`, and a linear one, as the rebase would drop merge commits.
+ */
+const getRangeCommits = async (range: string): Promise<{ commits: string[]; from: string }> => {
+  if (range.includes('...')) throw new Error(`Use a two-dot range like origin/main..HEAD`);
+
+  const [from, to = 'HEAD'] = range.split('..');
+
+  if ((await revParse(to || 'HEAD')) !== (await revParse('HEAD'))) {
+    throw new Error(`The range has to end at HEAD, check out ${to} first`);
+  }
+
+  const { stdout: merges } = await execa('git', ['rev-list', '--merges', `${from}..HEAD`]);
+  if (merges) throw new Error('The range contains merge commits, they cannot be reworded');
+
+  const { stdout: commits } = await execa('git', ['rev-list', '--reverse', `${from}..HEAD`]);
+
+  return { commits: commits.split('\n').filter(Boolean), from };
+};
+
+// rewriting commits someone may have pulled already would make their history diverge
+const assertNotPushed = async (from: string, commits: string[]) => {
+  const { stdout } = await execa('git', [
+    'rev-list',
+    '--count',
+    `${from}..HEAD`,
+    '--not',
+    '--remotes'
+  ]);
+  // a pushed commit's ancestors are pushed too, so the pushed ones come first
+  const pushedCount = commits.length - Number(stdout);
+
+  if (pushedCount > 0) {
+    throw new Error(
+      `${pushedCount} of these commits are already pushed, pick a range that starts after ${commits[pushedCount - 1].slice(0, 7)}, e.g. @{upstream}..HEAD`
+    );
+  }
+};
+
+const formatPreview = (rewordedCommits: RewordedCommit[]) =>
+  rewordedCommits
+    .map(
+      ({ message, sha, subject }) => `${chalk.yellow(sha.slice(0, 7))} ${chalk.grey(subject)}
+${message
+  .split('\n')
+  .map((line, index) => `${index === 0 ? chalk.green('→') : ' '}       ${line}`)
+  .join('\n')}`
+    )
+    .join('\n\n');
+
+const rewordRange = async (range: string) => {
+  await assertGitRepo();
+  const config = getConfig() ?? {};
+
+  // commit diffs are relative to the current directory, every file of the commits is described
+  const { stdout: topLevel } = await execa('git', ['rev-parse', '--show-toplevel']);
+  process.chdir(topLevel);
+
+  const { commits, from } = await getRangeCommits(range);
+
+  if (commits.length === 0) {
+    outro(`No commits in ${range}`);
+    return;
+  }
+
+  await assertNotPushed(from, commits);
+
+  const generateSpinner = spinner();
+  generateSpinner.start(`Generating messages for ${commits.length} commits`);
+
+  // requests are throttled by the scheduler shared by every generation, this one only bounds how
+  // many commits, and their git processes, are handled at the same time
+  const scheduleCommit = createScheduler({ concurrency: config.OCO_API_CONCURRENCY, retries: 0 });
+
+  const rewordedCommits = await Promise.all(
+    commits.map((sha) =>
+      scheduleCommit(async (): Promise<RewordedCommit> => {
+        const { stdout: subject } = await execa('git', ['log', '-1', '--format=%s', sha]);
+        const diff = protectDiff(await getCommitDiff(sha), config);
+        const message = await generateCommitMessageByDiff(diff);
+
+        return { message: addTrailers(message, await getCommitTrailers(sha)), sha, subject };
+      })
+    )
+  );
+
+  generateSpinner.stop(`📝 Generated ${rewordedCommits.length} commit messages`);
+
+  outro(formatPreview(rewordedCommits));
+
+  const acceptedCommits = await multiselect({
+    initialValues: commits,
+    message: 'Select the commits to reword',
+    options: rewordedCommits.map(({ message, sha }) => ({
+      label: `${sha.slice(0, 7)} ${getSubject(message)}`,
+      value: sha
+    })),
+    required: false
+  });
+
+  if (isCancel(acceptedCommits) || acceptedCommits.length === 0) {
+    outro(`${chalk.gray('✖')} Nothing was reworded`);
+    return;
+  }
+
+  const messages = new Map(
+    rewordedCommits
+      .filter(({ sha }) => acceptedCommits.includes(sha))
+      .map(({ message, sha }) => [sha, message])
+  );
+
+  const rewordSpinner = spinner();
+  rewordSpinner.start(`Rewording ${messages.size} commits`);
+  const oldestSha = commits.find((sha) => messages.has(sha)) as string;
+  await rewordCommits(oldestSha, messages);
+  rewordSpinner.stop(`${chalk.green('✔')} Reworded ${messages.size} commits`);
+};
+
+export const rewordCommand = command(
+  {
+    help: {
+      description:
+        'Generate new messages for the unpushed commits of a range, e.g. origin/main..HEAD'
+    },
+    name: COMMANDS.reword,
+    parameters: ['<range>']
+  },
+  async (argv) => {
+    intro('opencommit — reword');
+    setUsageCommand(USAGE_COMMAND.reword);
+    try {
+      await rewordRange(argv._.range);
+    } catch (error) {
+      outro(`${chalk.red('✖')} ${getErrorMessage(error)}`);
+      process.exit(1);
+    }
+  }
+);
@@ -0,0 +1,161 @@
+import chalk from 'chalk';
+import { command } from 'cleye';
+import { execa } from 'execa';
+
+import { intro, isCancel, outro, select, spinner } from '@clack/prompts';
+
+import { COMMANDS } from '../commands-enum';
+import { getErrorMessage } from '../errors';
+import {
+  generateCommitGroupsByDiff,
+  generateCommitMessageCandidatesByDiff
+} from '../generate-commit-message-from-git-diff';
+import { assertGitRepo, commitStagedFiles, getDiff, getStagedFiles } from '../utils/git';
+import { pushCommits } from '../utils/push';
+import { applySecretsPolicy, protectDiff } from '../utils/secrets';
+import { setUsageCommand, USAGE_COMMAND } from '../utils/usage';
+import { reviewCommitMessage, type ReviewGenerateOptions } from './commit';
+import { getConfig } from './config';
+
+export enum SPLIT_ACTIONS {
+  commit = 'commit',
+  move = 'move'
+}
+
+const formatGroups = (groups: string[][]) =>
+  groups
+    .map(
+      (files, index) =>
+        `${chalk.bold(`Commit ${index + 1}:`)}
+${files.map((file) => `  ${file}`).join('\n')}`
+    )
+    .join('\n\n');
+
+// moves one file to another group, or to a new one, and drops the groups left empty
+const moveFile = async (groups: string[][]): Promise<string[][] | symbol> => {
+  const file = await select({
+    message: 'Which file do you want to move?',
+    options: groups.flatMap((files, index) =>
+      files.map((file) => ({ hint: `commit ${index + 1}`, label: file, value: file }))
+    )
+  });
+  if (isCancel(file)) return file;
+
+  const target = await select({
+    message: `Move ${file} to`,
+    options: [
+      ...groups.map((files, index) => ({
+        hint: files.join(', '),
+        label: `Commit ${index + 1}`,
+        value: index
+      })),
+      { label: 'A new commit', value: groups.length }
+    ]
+  });
+  if (isCancel(target)) return target;
+
+  const targetIndex = target as number;
+  const movedGroups = groups.map((files) => files.filter((groupFile) => groupFile !== file));
+  movedGroups[targetIndex] = [...(movedGroups[targetIndex] ?? []), file as string];
+
+  return movedGroups.filter((files) => files.length > 0);
+};
+
+// lets the user move files between the proposed groups until they accept them
+const reviewGroups = async (proposedGroups: string[][]): Promise<string[][] | undefined> => {
+  let groups = proposedGroups;
+
+  for (;;) {
+    outro(formatGroups(groups));
+
+    const action = await select({
+      message: 'Do you want to commit the changes this way?',
+      options: [
+        { label: 'Commit them', value: SPLIT_ACTIONS.commit },
+        { label: 'Move a file to another commit', value: SPLIT_ACTIONS.move }
+      ]
+    });
+    if (isCancel(action)) return undefined;
+
+    if (action === SPLIT_ACTIONS.commit) return groups;
+
+    const movedGroups = await moveFile(groups);
+    if (isCancel(movedGroups)) return undefined;
+    groups = movedGroups;
+  }
+};
+
+const splitCommit = async () => {
+  await assertGitRepo();
+  const config = getConfig() ?? {};
+
+  const files = await getStagedFiles({ renames: false });
+
+  if (files.length < 2) {
+    outro('Stage changes to at least two files to split them into several commits');
+    return;
+  }
+
+  const groupSpinner = spinner();
+  groupSpinner.start('Grouping the staged files into commits');
+  // the groups' diffs are parts of this one, so their redactions were already listed
+  const diff = protectDiff(await getDiff({ files }), config);
+  const proposedGroups = await generateCommitGroupsByDiff(diff, files, { config });
+  groupSpinner.stop(`📦 Proposed ${proposedGroups.length} commits`);
+
+  const groups = await reviewGroups(proposedGroups);
+
+  if (!groups) {
+    outro(`${chalk.gray('✖')} Split aborted, the changes are still staged`);
+    return;
+  }
+
+  for (const [index, groupFiles] of groups.entries()) {
+    outro(`${chalk.bold(`Commit ${index + 1} of ${groups.length}:`)} ${groupFiles.join(', ')}`);
+
+    const { diff: groupDiff } = applySecretsPolicy(await getDiff({ files: groupFiles }), config);
+
+    const commitMessage = await reviewCommitMessage(
+      (options: ReviewGenerateOptions) =>
+        generateCommitMessageCandidatesByDiff(groupDiff, config.OCO_CANDIDATES ?? 1, {
+          ...options,
+          config
+        }),
+      true
+    );
+
+    if (!commitMessage) {
+      outro(`${chalk.gray('✖')} Split aborted, the remaining changes are still staged`);
+      return;
+    }
+
+    const stdout = await commitStagedFiles(groupFiles, commitMessage);
+    outro(`${chalk.green('✔')} Successfully committed\n${stdout}`);
+  }
+
+  // e.g. files excluded by .opencommitignore, they were never part of a group
+  const { exitCode } = await execa('git', ['diff', '--cached', '--quiet'], { reject: false });
+  if (exitCode !== 0) outro('Some staged changes were not part of any commit and are still staged');
+
+  const isPushed = await pushCommits(config);
+  if (!isPushed) process.exit(1);
+};
+
+export const splitCommand = command(
+  {
+    help: {
+      description: 'Split the staged changes into several commits, each with its own message'
+    },
+    name: COMMANDS.split
+  },
+  async () => {
+    intro('opencommit — split');
+    setUsageCommand(USAGE_COMMAND.split);
+    try {
+      await splitCommit();
+    } catch (error) {
+      outro(`${chalk.red('✖')} ${getErrorMessage(error)}`);
+      process.exit(1);
+    }
+  }
+);
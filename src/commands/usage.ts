@@ -0,0 +1,75 @@
+import chalk from 'chalk';
+import { command } from 'cleye';
+
+import { intro, outro } from '@clack/prompts';
+
+import { COMMANDS } from '../commands-enum';
+import { readUsage, summarizeUsage, type UsageEntry, type UsageTotal } from '../utils/usage';
+import { getConfig } from './config';
+
+const USAGE_GROUPS: Record<string, (entry: UsageEntry) => string> = {
+  day: (entry) => entry.date.slice(0, 10),
+  model: (entry) => entry.model,
+  repo: (entry) => entry.repo
+};
+
+const formatCost = (cost: number | undefined) =>
+  cost === undefined ? chalk.gray('unknown') : `$${cost.toFixed(4)}`;
+
+const formatTotals = (totals: Record<string, UsageTotal>) => {
+  const rows = Object.entries(totals).sort(([a], [b]) => a.localeCompare(b));
+  const width = Math.max(...rows.map(([group]) => group.length));
+
+  return rows
+    .map(
+      ([group, total]) =>
+        `  ${group.padEnd(width)}  ${total.requests} requests, ${total.promptTokens} prompt + ${total.completionTokens} completion tokens, ${formatCost(total.cost)}`
+    )
+    .join('\n');
+};
+
+export const usageCommand = command(
+  {
+    flags: {
+      json: {
+        description: 'Print the totals as JSON',
+        type: Boolean
+      }
+    },
+    help: { description: 'Show the tokens used and what they cost, by day, repo and model' },
+    name: COMMANDS.usage
+  },
+  (argv) => {
+    try {
+      const customModels = getConfig()?.OCO_CUSTOM_MODELS;
+      const entries = readUsage();
+
+      const summary = Object.fromEntries(
+        Object.entries(USAGE_GROUPS).map(([name, getGroup]) => [
+          name,
+          summarizeUsage(entries, getGroup, customModels)
+        ])
+      );
+
+      if (argv.flags.json) {
+        const { total } = summarizeUsage(entries, () => 'total', customModels);
+        process.stdout.write(`${JSON.stringify({ ...summary, total }, undefined, 2)}\n`);
+        return;
+      }
+
+      intro('opencommit — usage');
+
+      if (entries.length === 0) {
+        outro('No requests recorded yet');
+        return;
+      }
+
+      for (const [name, totals] of Object.entries(summary)) {
+        outro(`${chalk.bold(`By ${name}`)}\n${formatTotals(totals)}`);
+      }
+    } catch (error) {
+      outro(`${chalk.red('✖')} ${error}`);
+      process.exit(1);
+    }
+  }
+);
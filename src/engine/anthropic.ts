@@ -0,0 +1,109 @@
+import axios from 'axios';
+import OpenAI from 'openai';
+
+import { GenerateCommitMessageError, GenerateCommitMessageErrorEnum } from '../errors';
+import { getTokenCount } from '../utils/token-count';
+import type { AiEngine, AiEngineConfig, CompletionOptions } from './engine';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicMessage {
+  content: string;
+  role: 'assistant' | 'user';
+}
+
+interface AnthropicResponse {
+  content: { text?: string; type: string }[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+const getTextContent = (message: OpenAI.Chat.ChatCompletionMessageParam): string => {
+  if (typeof message.content === 'string') return message.content;
+  if (!Array.isArray(message.content)) return '';
+
+  return message.content
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * The Messages API takes the system prompt as a separate field and requires the conversation to
+ * start with a user turn and to alternate roles, so the OpenAI-shaped prompt is folded to fit.
+ */
+export const toAnthropicMessages = (messages: OpenAI.Chat.ChatCompletionMessageParam[]) => {
+  const system: string[] = [];
+  const conversation: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    const content = getTextContent(message);
+
+    if (message.role === 'system') {
+      system.push(content);
+      continue;
+    }
+
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+
+    // a conversation can't open with the assistant, treat leading instructions as system prompt
+    if (conversation.length === 0 && role === 'assistant') {
+      system.push(content);
+      continue;
+    }
+
+    const previous = conversation.at(-1);
+    if (previous?.role === role) {
+      previous.content += `\n\n${content}`;
+    } else {
+      conversation.push({ content, role });
+    }
+  }
+
+  return { messages: conversation, system: system.join('\n\n') };
+};
+
+export class AnthropicEngine implements AiEngine {
+  constructor(private config: AiEngineConfig) {}
+
+  public generateCommitMessage = async (
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    options?: CompletionOptions
+  ): Promise<string | undefined> => {
+    const requestBody = {
+      max_tokens: this.config.maxTokens,
+      model: this.config.model,
+      // the Messages API takes `temperature` or `top_p`, not both
+      temperature: options?.temperature ?? 0,
+      ...toAnthropicMessages(messages)
+    };
+    const REQUEST_TOKENS = getTokenCount(messages, this.config.modelInfo.tokenizer);
+
+    if (REQUEST_TOKENS > this.config.modelInfo.contextWindow - this.config.maxTokens) {
+      throw new GenerateCommitMessageError(GenerateCommitMessageErrorEnum.tooMuchTokens);
+    }
+
+    const { data } = await axios.post<AnthropicResponse>(
+      this.config.baseURL ?? ANTHROPIC_API_URL,
+      requestBody,
+      {
+        headers: {
+          'anthropic-version': ANTHROPIC_VERSION,
+          'content-type': 'application/json',
+          'x-api-key': this.config.apiKey
+        }
+      }
+    );
+
+    const message = data.content.map((block) => (block.type === 'text' ? block.text : '')).join('');
+
+    if (data.usage) {
+      this.config.onUsage?.({
+        completionTokens: data.usage.output_tokens,
+        promptTokens: data.usage.input_tokens
+      });
+    }
+
+    return message || undefined;
+  };
+}
@@ -0,0 +1,28 @@
+import { OpenAiEngine } from './open-ai';
+import type { AiEngineConfig } from './engine';
+
+export const DEFAULT_AZURE_API_VERSION = '2024-02-01';
+
+interface AzureEngineConfig extends AiEngineConfig {
+  apiVersion?: string;
+  endpoint: string;
+}
+
+/**
+ * Azure OpenAI speaks the OpenAI chat completions protocol, but routes requests per deployment
+ * and authenticates with an `api-key` header instead of a bearer token.
+ */
+export class AzureEngine extends OpenAiEngine {
+  // `stream_options` is only accepted by recent API versions
+  protected supportsStreamUsage = false;
+
+  constructor(config: AzureEngineConfig) {
+    const endpoint = config.endpoint.replace(/\/+$/, '');
+
+    super(config, {
+      baseURL: `${endpoint}/openai/deployments/${config.model}`,
+      defaultHeaders: { 'api-key': config.apiKey },
+      defaultQuery: { 'api-version': config.apiVersion ?? DEFAULT_AZURE_API_VERSION }
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import OpenAI from 'openai';
+
+import { computeHash } from '../modules/commitlint/crypto';
+import type { AiEngine, CompletionOptions } from './engine';
+
+export enum CASSETTE_MODE {
+  record = 'record',
+  replay = 'replay',
+  stub = 'stub'
+}
+
+export const DEFAULT_CASSETTE_PATH = '.opencommit-cassette.json';
+export const DEFAULT_CASSETTE_STUB_RESPONSE = 'chore: update files';
+
+interface CassetteEntry {
+  messages: OpenAI.Chat.ChatCompletionMessageParam[];
+  response: string | undefined;
+}
+
+type Cassette = Record<string, CassetteEntry>;
+
+interface CassetteEngineConfig {
+  engine?: AiEngine;
+  mode: CASSETTE_MODE;
+  path: string;
+  stubResponse: string;
+}
+
+export const getCassetteKey = (messages: OpenAI.Chat.ChatCompletionMessageParam[]) =>
+  computeHash(JSON.stringify(messages));
+
+/**
+ * Wraps a provider to make runs deterministic and offline: `record` stores every answer in a
+ * cassette file keyed by the hash of the prompt, `replay` serves them back without touching the
+ * network and `stub` answers everything with a fixed message.
+ */
+export class CassetteEngine implements AiEngine {
+  constructor(private config: CassetteEngineConfig) {}
+
+  private readCassette(): Cassette {
+    if (!existsSync(this.config.path)) return {};
+
+    return JSON.parse(readFileSync(this.config.path, 'utf8')) as Cassette;
+  }
+
+  public generateCommitMessage = async (
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    options?: CompletionOptions
+  ): Promise<string | undefined> => {
+    const key = getCassetteKey(messages);
+
+    switch (this.config.mode) {
+      case CASSETTE_MODE.stub: {
+        return this.config.stubResponse;
+      }
+
+      case CASSETTE_MODE.replay: {
+        const entry = this.readCassette()[key];
+
+        if (!entry) {
+          throw new Error(
+            `No recorded response for request ${key} in ${this.config.path}, record it first with OCO_CASSETTE_MODE=record`
+          );
+        }
+
+        return entry.response;
+      }
+
+      default: {
+        if (!this.config.engine) throw new Error('Recording a cassette requires an AI provider');
+
+        const response = await this.config.engine.generateCommitMessage(messages, options);
+
+        // read right before writing, concurrent requests may have recorded in the meantime
+        const cassette = this.readCassette();
+        cassette[key] = { messages, response };
+        writeFileSync(this.config.path, JSON.stringify(cassette, undefined, 2));
+
+        return response;
+      }
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import OpenAI from 'openai';
+
+import type { TokenUsage } from '../utils/usage';
+import type { ModelInfo } from './models';
+
+export interface AiEngineConfig {
+  apiKey?: string;
+  baseURL?: string;
+  maxTokens: number;
+  model: string;
+  modelInfo: ModelInfo;
+  // called with the tokens billed for every successful request
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface CompletionOptions {
+  // 0, the default, always picks the most likely answer
+  temperature?: number;
+}
+
+// enough variety between candidates without drifting away from the diff
+export const CANDIDATES_TEMPERATURE = 0.7;
+
+/**
+ * Sampling parameters shared by all providers: deterministic by default, or sampling the whole
+ * distribution at the requested temperature.
+ */
+export const getSamplingParameters = ({ temperature }: CompletionOptions = {}) =>
+  temperature ? { temperature, top_p: 1 } : { temperature: 0, top_p: 0.1 };
+
+/**
+ * A backend able to turn a chat prompt into a commit message. Every provider implements this, so
+ * callers never need to know which LLM is answering.
+ */
+export interface AiEngine {
+  generateCommitMessage(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    options?: CompletionOptions
+  ): Promise<string | undefined>;
+
+  /**
+   * Generates `count` alternative messages in a single request. Providers that can't leave it
+   * out, and the prompt is sent `count` times instead.
+   */
+  generateCommitMessages?(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    count: number
+  ): Promise<string[]>;
+
+  /**
+   * Same as `generateCommitMessage`, calling `onToken` with every piece of the answer as soon as
+   * it arrives. Providers without streaming support leave it out.
+   */
+  generateCommitMessageStream?(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    onToken: (token: string) => void
+  ): Promise<string | undefined>;
+}
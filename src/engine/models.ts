@@ -0,0 +1,141 @@
+import type { TiktokenEncoding } from '@dqbd/tiktoken';
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelInfo {
+  contextWindow: number;
+  maxOutputTokens: number;
+  // unknown for local or self-hosted models, their requests are counted but not priced
+  pricing?: ModelPricing;
+  tokenizer: TiktokenEncoding;
+}
+
+export const TOKENIZERS: TiktokenEncoding[] = [
+  'cl100k_base',
+  'p50k_base',
+  'p50k_edit',
+  'r50k_base',
+  'gpt2'
+];
+
+// Used for models nobody told us about, e.g. Ollama models or Azure deployment names.
+export const DEFAULT_MODEL_INFO: ModelInfo = {
+  contextWindow: 4096,
+  maxOutputTokens: 4096,
+  tokenizer: 'cl100k_base'
+};
+
+export const OPENAI_MODELS: Record<string, ModelInfo> = {
+  'gpt-3.5-turbo': {
+    contextWindow: 16_385,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.5, output: 1.5 },
+    tokenizer: 'cl100k_base'
+  },
+  'gpt-3.5-turbo-0613': {
+    contextWindow: 4096,
+    maxOutputTokens: 4096,
+    pricing: { input: 1.5, output: 2 },
+    tokenizer: 'cl100k_base'
+  },
+  'gpt-3.5-turbo-16k': {
+    contextWindow: 16_385,
+    maxOutputTokens: 4096,
+    pricing: { input: 3, output: 4 },
+    tokenizer: 'cl100k_base'
+  },
+  'gpt-4': {
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    pricing: { input: 30, output: 60 },
+    tokenizer: 'cl100k_base'
+  },
+  'gpt-4-0125-preview': {
+    contextWindow: 128_000,
+    maxOutputTokens: 4096,
+    pricing: { input: 10, output: 30 },
+    tokenizer: 'cl100k_base'
+  },
+  'gpt-4-1106-preview': {
+    contextWindow: 128_000,
+    maxOutputTokens: 4096,
+    pricing: { input: 10, output: 30 },
+    tokenizer: 'cl100k_base'
+  },
+  'gpt-4-turbo-preview': {
+    contextWindow: 128_000,
+    maxOutputTokens: 4096,
+    pricing: { input: 10, output: 30 },
+    tokenizer: 'cl100k_base'
+  }
+};
+
+// Anthropic doesn't publish its tokenizer, cl100k_base is a close enough estimate for budgeting.
+export const ANTHROPIC_MODELS: Record<string, ModelInfo> = {
+  'claude-2.0': {
+    contextWindow: 100_000,
+    maxOutputTokens: 4096,
+    pricing: { input: 8, output: 24 },
+    tokenizer: 'cl100k_base'
+  },
+  'claude-2.1': {
+    contextWindow: 200_000,
+    maxOutputTokens: 4096,
+    pricing: { input: 8, output: 24 },
+    tokenizer: 'cl100k_base'
+  },
+  'claude-3-haiku-20240307': {
+    contextWindow: 200_000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.25, output: 1.25 },
+    tokenizer: 'cl100k_base'
+  },
+  'claude-3-opus-20240229': {
+    contextWindow: 200_000,
+    maxOutputTokens: 4096,
+    pricing: { input: 15, output: 75 },
+    tokenizer: 'cl100k_base'
+  },
+  'claude-3-sonnet-20240229': {
+    contextWindow: 200_000,
+    maxOutputTokens: 4096,
+    pricing: { input: 3, output: 15 },
+    tokenizer: 'cl100k_base'
+  },
+  'claude-instant-1.2': {
+    contextWindow: 100_000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.8, output: 2.4 },
+    tokenizer: 'cl100k_base'
+  }
+};
+
+/**
+ * Parses the user-declared models from `OCO_CUSTOM_MODELS`, a JSON object of model name to a
+ * partial `ModelInfo`. Missing fields fall back to what the registry knows about the model, then to
+ * `DEFAULT_MODEL_INFO`, so e.g. only the pricing of a known model can be overridden.
+ */
+export const parseCustomModels = (customModels: unknown): Record<string, ModelInfo> => {
+  if (!customModels) return {};
+
+  const declared = (
+    typeof customModels === 'string' ? JSON.parse(customModels) : customModels
+  ) as Record<string, Partial<ModelInfo>>;
+
+  return Object.fromEntries(
+    Object.entries(declared).map(([model, info]) => [
+      model,
+      { ...DEFAULT_MODEL_INFO, ...(OPENAI_MODELS[model] ?? ANTHROPIC_MODELS[model]), ...info }
+    ])
+  );
+};
+
+export const getModelInfo = (model: string, customModels?: unknown): ModelInfo =>
+  parseCustomModels(customModels)[model] ??
+  OPENAI_MODELS[model] ??
+  ANTHROPIC_MODELS[model] ??
+  DEFAULT_MODEL_INFO;
@@ -0,0 +1,110 @@
+import axios from 'axios';
+import type { Readable } from 'node:stream';
+import OpenAI from 'openai';
+
+import { GenerateCommitMessageError, GenerateCommitMessageErrorEnum } from '../errors';
+import { getTokenCount } from '../utils/token-count';
+import {
+  type AiEngine,
+  type AiEngineConfig,
+  type CompletionOptions,
+  getSamplingParameters
+} from './engine';
+
+export const DEFAULT_OLLAMA_API_URL = 'http://localhost:11434';
+
+interface OllamaChatResponse {
+  // token counts, sent with the final response
+  eval_count?: number;
+  message?: { content: string; role: string };
+  prompt_eval_count?: number;
+}
+
+export class OllamaEngine implements AiEngine {
+  constructor(private config: AiEngineConfig) {}
+
+  private get chatURL() {
+    return `${(this.config.baseURL ?? DEFAULT_OLLAMA_API_URL).replace(/\/+$/, '')}/api/chat`;
+  }
+
+  private getRequestBody(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    stream: boolean,
+    options?: CompletionOptions
+  ) {
+    const REQUEST_TOKENS = getTokenCount(messages, this.config.modelInfo.tokenizer);
+
+    if (REQUEST_TOKENS > this.config.modelInfo.contextWindow - this.config.maxTokens) {
+      throw new GenerateCommitMessageError(GenerateCommitMessageErrorEnum.tooMuchTokens);
+    }
+
+    return {
+      messages,
+      model: this.config.model,
+      options: {
+        num_predict: this.config.maxTokens,
+        ...getSamplingParameters(options)
+      },
+      stream
+    };
+  }
+
+  private reportUsage(response: OllamaChatResponse) {
+    if (response.prompt_eval_count === undefined && response.eval_count === undefined) return;
+
+    this.config.onUsage?.({
+      completionTokens: response.eval_count ?? 0,
+      promptTokens: response.prompt_eval_count ?? 0
+    });
+  }
+
+  public generateCommitMessage = async (
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    options?: CompletionOptions
+  ): Promise<string | undefined> => {
+    const { data } = await axios.post<OllamaChatResponse>(
+      this.chatURL,
+      this.getRequestBody(messages, false, options)
+    );
+
+    this.reportUsage(data);
+
+    return data.message?.content;
+  };
+
+  public generateCommitMessageStream = async (
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    onToken: (token: string) => void
+  ): Promise<string | undefined> => {
+    const { data } = await axios.post<Readable>(this.chatURL, this.getRequestBody(messages, true), {
+      responseType: 'stream'
+    });
+
+    // a streamed answer is a sequence of JSON objects, one per line
+    let message = '';
+    const readLine = (line: string) => {
+      const response = JSON.parse(line) as OllamaChatResponse;
+      this.reportUsage(response);
+
+      const token = response.message?.content;
+      if (!token) return;
+
+      message += token;
+      onToken(token);
+    };
+
+    let buffer = '';
+    for await (const chunk of data) {
+      buffer += chunk.toString();
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines.filter(Boolean)) readLine(line);
+    }
+
+    if (buffer.trim()) readLine(buffer);
+
+    return message || undefined;
+  };
+}
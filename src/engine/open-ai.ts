@@ -0,0 +1,119 @@
+import OpenAI, { type ClientOptions } from 'openai';
+
+import { GenerateCommitMessageError, GenerateCommitMessageErrorEnum } from '../errors';
+import { getTokenCount, tokenCount } from '../utils/token-count';
+import {
+  type AiEngine,
+  type AiEngineConfig,
+  CANDIDATES_TEMPERATURE,
+  type CompletionOptions,
+  getSamplingParameters
+} from './engine';
+
+export class OpenAiEngine implements AiEngine {
+  protected client: OpenAI;
+
+  // whether the API sends the token usage as the last chunk of a streamed completion when asked to
+  protected supportsStreamUsage = true;
+
+  constructor(
+    protected config: AiEngineConfig,
+    clientOptions: ClientOptions = {}
+  ) {
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+      // retries are left to the request scheduler, which also honours `Retry-After`
+      maxRetries: 0,
+      ...clientOptions
+    });
+  }
+
+  private getChatCompletionParameters(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    options?: CompletionOptions
+  ) {
+    const REQUEST_TOKENS = getTokenCount(messages, this.config.modelInfo.tokenizer);
+
+    if (REQUEST_TOKENS > this.config.modelInfo.contextWindow - this.config.maxTokens) {
+      throw new GenerateCommitMessageError(GenerateCommitMessageErrorEnum.tooMuchTokens);
+    }
+
+    return {
+      max_tokens: this.config.maxTokens,
+      messages,
+      model: this.config.model,
+      ...getSamplingParameters(options)
+    };
+  }
+
+  private reportUsage(usage: OpenAI.CompletionUsage | undefined) {
+    if (!usage) return;
+
+    this.config.onUsage?.({
+      completionTokens: usage.completion_tokens,
+      promptTokens: usage.prompt_tokens
+    });
+  }
+
+  public generateCommitMessage = async (
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    options?: CompletionOptions
+  ): Promise<string | undefined> => {
+    const completion = await this.client.chat.completions.create(
+      this.getChatCompletionParameters(messages, options)
+    );
+
+    const message = completion.choices[0].message;
+
+    this.reportUsage(completion.usage);
+
+    return message.content ?? undefined;
+  };
+
+  public generateCommitMessages = async (
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    count: number
+  ): Promise<string[]> => {
+    const completion = await this.client.chat.completions.create({
+      ...this.getChatCompletionParameters(messages, { temperature: CANDIDATES_TEMPERATURE }),
+      n: count
+    });
+
+    this.reportUsage(completion.usage);
+
+    return completion.choices.map((choice) => choice.message.content).filter(Boolean) as string[];
+  };
+
+  public generateCommitMessageStream = async (
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    onToken: (token: string) => void
+  ): Promise<string | undefined> => {
+    const stream = await this.client.chat.completions.create({
+      ...this.getChatCompletionParameters(messages),
+      stream: true,
+      ...(this.supportsStreamUsage && { stream_options: { include_usage: true } })
+    });
+
+    let message = '';
+    let usage: OpenAI.CompletionUsage | undefined;
+    for await (const chunk of stream) {
+      if (chunk.usage) usage = chunk.usage;
+
+      const token = chunk.choices[0]?.delta?.content;
+      if (!token) continue;
+
+      message += token;
+      onToken(token);
+    }
+
+    // without usage from the API, count the tokens ourselves
+    this.config.onUsage?.({
+      completionTokens:
+        usage?.completion_tokens ?? tokenCount(message, this.config.modelInfo.tokenizer),
+      promptTokens: usage?.prompt_tokens ?? getTokenCount(messages, this.config.modelInfo.tokenizer)
+    });
+
+    return message || undefined;
+  };
+}
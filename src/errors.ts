@@ -0,0 +1,99 @@
+import axios from 'axios';
+
+import type { SecretFinding } from './utils/secrets';
+
+export enum GenerateCommitMessageErrorEnum {
+  tooMuchTokens = 'TOO_MUCH_TOKENS',
+  internalError = 'INTERNAL_ERROR',
+  emptyMessage = 'EMPTY_MESSAGE'
+}
+
+/**
+ * Base class of the errors opencommit throws on purpose, so library users can tell them apart from
+ * provider or git failures.
+ */
+export class OpenCommitError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export class ConfigError extends OpenCommitError {
+  constructor(
+    public readonly key: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export class MissingApiKeyError extends ConfigError {
+  constructor(
+    key: string,
+    public readonly provider: string
+  ) {
+    super(
+      key,
+      `${key} is not set for the '${provider}' provider, please run \`oco config set ${key}=<your token>\`. Make sure you add payment details, so API works.`
+    );
+  }
+}
+
+// thrown instead of sending a diff with possible secrets when `OCO_SECRETS` is `block`
+export class SecretsFoundError extends OpenCommitError {
+  constructor(public readonly findings: SecretFinding[]) {
+    super(
+      `Found ${findings.length} possible secrets in the diff, nothing was sent:\n${findings
+        .map(({ file, line, rule }) => `  ${file}:${line} ${rule}`)
+        .join(
+          '\n'
+        )}\nUnstage them, or allow false positives in OCO_SECRETS_ALLOWLIST or with \`secret:<value>\` lines in .opencommitignore`
+    );
+  }
+}
+
+// The message is the error code, so `error.message` comparisons keep working.
+export class GenerateCommitMessageError extends OpenCommitError {
+  constructor(
+    public readonly code: GenerateCommitMessageErrorEnum,
+    options?: ErrorOptions
+  ) {
+    super(code, options);
+  }
+}
+
+// exit codes of `oco --json` and `oco --print`, 1 is left for every other failure
+export const GENERATE_COMMIT_MESSAGE_EXIT_CODES: Record<GenerateCommitMessageErrorEnum, number> = {
+  [GenerateCommitMessageErrorEnum.emptyMessage]: 4,
+  [GenerateCommitMessageErrorEnum.internalError]: 3,
+  [GenerateCommitMessageErrorEnum.tooMuchTokens]: 2
+};
+
+/**
+ * The message the CLI shows for an error, with the provider's own message and a hint when it's a
+ * failure to authenticate or to connect, e.g. the cause of an `internalError`.
+ */
+export const getErrorMessage = (error: unknown): string => {
+  const cause =
+    error instanceof GenerateCommitMessageError && error.cause !== undefined ? error.cause : error;
+  if (!(cause instanceof Error)) return String(cause);
+
+  // axios errors carry the response, the OpenAI client's errors their status
+  const status = axios.isAxiosError(cause)
+    ? cause.response?.status
+    : (cause as { status?: unknown }).status;
+  const providerMessage = axios.isAxiosError<{ error?: { message?: string } }>(cause)
+    ? cause.response?.data?.error?.message
+    : undefined;
+
+  if (status === 401) {
+    return `${providerMessage ?? cause.message}\nFor help look into README https://github.com/bodrick/opencommit#setup`;
+  }
+
+  if (axios.isAxiosError(cause) && cause.code === 'ECONNREFUSED') {
+    return `${cause.message}\nIs the provider running? For Ollama, start it with \`ollama serve\` or set OCO_OLLAMA_API_URL`;
+  }
+
+  return cause.message;
+};
@@ -1,17 +1,80 @@
 import OpenAI from 'openai';
 
-import { api, getTokenCount } from './api';
-import { DEFAULT_MODEL_TOKEN_LIMIT, getConfig } from './commands/config';
-import { getMainCommitPrompt } from './prompts';
-import { mergeDiffs } from './utils/merge-diffs';
-import { tokenCount } from './utils/token-count';
+import { type ConfigType, getConfig } from './commands/config';
+import { type AiEngine, CANDIDATES_TEMPERATURE } from './engine/engine';
+import type { ModelInfo } from './engine/models';
+import {
+  GenerateCommitMessageError,
+  GenerateCommitMessageErrorEnum,
+  OpenCommitError
+} from './errors';
+import {
+  type CommitPromptOptions,
+  getMainCommitPrompt,
+  getReduceCommitPrompt,
+  INIT_GROUPS_PROMPT,
+  REDUCE_SEPARATOR
+} from './prompts';
+import {
+  DEFAULT_CACHE_MAX_ENTRIES,
+  DEFAULT_CACHE_TTL,
+  getCachedMessage,
+  getCacheKey,
+  setCachedMessage
+} from './utils/cache';
+import {
+  getActiveModelInfo,
+  getBaseUrl,
+  getEngine,
+  getMaxTokens,
+  getModel,
+  getProvider
+} from './utils/engine';
+import { mergeDiffs, splitDiff } from './utils/merge-diffs';
+import { createScheduler } from './utils/scheduler';
+import { getTokenCount, tokenCount } from './utils/token-count';
+
+/**
+ * Everything a generation needs, built from an explicit config so nothing is read on import.
+ */
+interface GenerationContext {
+  cacheOptions: { maxEntries: number; ttl: number };
+  config: ConfigType | null;
+  engine: AiEngine;
+  modelInfo: ModelInfo;
+  onDiffSplit?: (chunkCount: number) => void;
+  promptOptions?: CommitPromptOptions;
+  // every request to the provider goes through here, chunked diffs would hit rate limits otherwise
+  scheduleRequest: <T>(task: () => Promise<T>) => Promise<T>;
+}
 
-const config = getConfig();
+const createGenerationContext = (
+  config: ConfigType | null,
+  engine: AiEngine = getEngine(config)
+): GenerationContext => ({
+  cacheOptions: {
+    maxEntries: config?.OCO_CACHE_MAX_ENTRIES ?? DEFAULT_CACHE_MAX_ENTRIES,
+    ttl: config?.OCO_CACHE_TTL ?? DEFAULT_CACHE_TTL
+  },
+  config,
+  engine,
+  modelInfo: getActiveModelInfo(config),
+  scheduleRequest: createScheduler({
+    concurrency: config?.OCO_API_CONCURRENCY,
+    retries: config?.OCO_API_MAX_RETRIES
+  })
+});
+
+// the CLI and the Action share one engine and one scheduler across all their generations
+let defaultContext: GenerationContext | undefined;
+
+const getDefaultContext = () => (defaultContext ??= createGenerationContext(getConfig()));
 
 const generateCommitMessageChatCompletionPrompt = async (
-  diff: string
+  diff: string,
+  { config, engine, promptOptions }: GenerationContext
 ): Promise<OpenAI.Chat.ChatCompletionMessageParam[]> => {
-  const INIT_MESSAGES_PROMPT = await getMainCommitPrompt();
+  const INIT_MESSAGES_PROMPT = await getMainCommitPrompt(config, engine, promptOptions);
 
   const chatContextAsCompletionRequest = [...INIT_MESSAGES_PROMPT];
 
@@ -23,69 +86,283 @@ const generateCommitMessageChatCompletionPrompt = async (
   return chatContextAsCompletionRequest;
 };
 
-export enum GenerateCommitMessageErrorEnum {
-  tooMuchTokens = 'TOO_MUCH_TOKENS',
-  internalError = 'INTERNAL_ERROR',
-  emptyMessage = 'EMPTY_MESSAGE'
-}
+export { GenerateCommitMessageErrorEnum } from './errors';
 
 const ADJUSTMENT_FACTOR = 20;
 
-export const generateCommitMessageByDiff = async (diff: string): Promise<string> => {
-  const INIT_MESSAGES_PROMPT = await getMainCommitPrompt();
+// failures of the provider, e.g. an HTTP or a network error, are thrown as an `internalError`
+// caused by them, the CLI shows them with `getErrorMessage`
+const toGenerationError = (error: unknown) =>
+  error instanceof OpenCommitError
+    ? error
+    : new GenerateCommitMessageError(GenerateCommitMessageErrorEnum.internalError, {
+        cause: error
+      });
+
+export interface GenerateCommitMessageOptions {
+  /**
+   * Reuse the message generated earlier for the same diff, prompt, model and provider. Enabled by
+   * default, `OCO_CACHE_TTL=0` or a cassette mode turns it off.
+   */
+  cache?: boolean;
+
+  /**
+   * Receives the message token by token while it's generated. Only called when the diff fits
+   * into a single request and the provider supports streaming.
+   */
+  onToken?: (token: string) => void;
+
+  // called when the diff doesn't fit into a single request and is split into `chunkCount` requests
+  onDiffSplit?: (chunkCount: number) => void;
+
+  /**
+   * Config to generate with instead of the one read from `~/.opencommit` and the environment.
+   */
+  config?: ConfigType;
+
+  // provider to call instead of the one built from the config
+  engine?: AiEngine;
+
+  // why the changes were made, in the developer's words
+  context?: string;
+
+  // free-text instructions added to the prompt, e.g. "mention the issue number"
+  hint?: string;
+}
+
+export const generateCommitMessageByDiff = async (
+  diff: string,
+  options: GenerateCommitMessageOptions = {}
+): Promise<string> => {
+  const [commitMessage] = await generateCommitMessageCandidatesByDiff(diff, 1, options);
+
+  return commitMessage;
+};
+
+/**
+ * Generates up to `count` different commit messages for the diff, duplicates are dropped. Only a
+ * single message is streamed or cached.
+ */
+export const generateCommitMessageCandidatesByDiff = async (
+  diff: string,
+  count: number,
+  {
+    cache = true,
+    config,
+    context: developerContext,
+    engine,
+    hint,
+    onDiffSplit,
+    onToken
+  }: GenerateCommitMessageOptions = {}
+): Promise<string[]> => {
+  const context: GenerationContext = {
+    ...(config === undefined && engine === undefined
+      ? getDefaultContext()
+      : createGenerationContext(config ?? {}, engine)),
+    onDiffSplit,
+    promptOptions: { context: developerContext, hint }
+  };
+  const { cacheOptions } = context;
+
+  const INIT_MESSAGES_PROMPT = await getMainCommitPrompt(
+    context.config,
+    context.engine,
+    context.promptOptions
+  );
+
+  // recorded, replayed and stubbed answers come from the cassette, they're never mixed with real ones
+  const isCacheEnabled =
+    cache && count === 1 && cacheOptions.ttl > 0 && !context.config?.OCO_CASSETTE_MODE;
+  const cacheKey = getCacheKey(diff, INIT_MESSAGES_PROMPT, {
+    baseUrl: getBaseUrl(context.config),
+    model: getModel(context.config),
+    provider: getProvider(context.config)
+  });
 
-  const INIT_MESSAGES_PROMPT_LENGTH = getTokenCount(INIT_MESSAGES_PROMPT);
+  if (isCacheEnabled) {
+    const cachedMessage = getCachedMessage(cacheKey, cacheOptions);
+    if (cachedMessage) return [cachedMessage];
+  }
+
+  const commitMessages = await generateCommitMessageByDiffWithoutCache(
+    diff,
+    INIT_MESSAGES_PROMPT,
+    context,
+    count,
+    onToken
+  ).catch((error) => {
+    throw toGenerationError(error);
+  });
 
+  if (isCacheEnabled) setCachedMessage(cacheKey, commitMessages[0], cacheOptions);
+
+  return commitMessages;
+};
+
+/**
+ * Asks for `count` answers to the same prompt, natively when the provider supports it, otherwise
+ * with one request per answer sampled at a higher temperature.
+ */
+const requestCandidates = async (
+  messages: OpenAI.Chat.ChatCompletionMessageParam[],
+  count: number,
+  { engine, scheduleRequest }: GenerationContext
+): Promise<string[]> => {
+  const { generateCommitMessages } = engine;
+
+  const candidates = generateCommitMessages
+    ? await scheduleRequest(() => generateCommitMessages(messages, count))
+    : await Promise.all(
+        Array.from({ length: count }, () =>
+          scheduleRequest(() =>
+            engine.generateCommitMessage(messages, { temperature: CANDIDATES_TEMPERATURE })
+          )
+        )
+      );
+
+  const uniqueCandidates = [...new Set(candidates.filter(Boolean) as string[])];
+
+  if (uniqueCandidates.length === 0) {
+    throw new GenerateCommitMessageError(GenerateCommitMessageErrorEnum.emptyMessage);
+  }
+
+  return uniqueCandidates;
+};
+
+const generateCommitMessageByDiffWithoutCache = async (
+  diff: string,
+  INIT_MESSAGES_PROMPT: OpenAI.Chat.ChatCompletionMessageParam[],
+  context: GenerationContext,
+  count: number,
+  onToken?: (token: string) => void
+): Promise<string[]> => {
+  const { config, engine, modelInfo, scheduleRequest } = context;
+  const INIT_MESSAGES_PROMPT_LENGTH = getTokenCount(INIT_MESSAGES_PROMPT, modelInfo.tokenizer);
+
+  // the splitting budget is whatever the active model's context window leaves for the diff
   const MAX_REQUEST_TOKENS =
-    DEFAULT_MODEL_TOKEN_LIMIT -
+    modelInfo.contextWindow -
     ADJUSTMENT_FACTOR -
     INIT_MESSAGES_PROMPT_LENGTH -
-    config?.OCO_OPENAI_MAX_TOKENS;
+    getMaxTokens(config);
 
-  if (tokenCount(diff) >= MAX_REQUEST_TOKENS) {
+  if (tokenCount(diff, modelInfo.tokenizer) >= MAX_REQUEST_TOKENS) {
     const commitMessagePromises = await getCommitMsgsPromisesFromFileDiffs(
       diff,
-      MAX_REQUEST_TOKENS
+      MAX_REQUEST_TOKENS,
+      context
     );
+    context.onDiffSplit?.(commitMessagePromises.length);
+
+    const chunkMessages = await Promise.all(commitMessagePromises);
+    const commitMessages = chunkMessages.filter(Boolean) as string[];
+
+    if (commitMessages.length === 0)
+      throw new GenerateCommitMessageError(GenerateCommitMessageErrorEnum.emptyMessage);
+
+    return reduceCommitMessages(commitMessages, context, count);
+  }
+
+  const messages = await generateCommitMessageChatCompletionPrompt(diff, context);
+
+  if (count > 1) return requestCandidates(messages, count, context);
+
+  const commitMessage = await scheduleRequest(() =>
+    onToken && engine.generateCommitMessageStream
+      ? engine.generateCommitMessageStream(messages, onToken)
+      : engine.generateCommitMessage(messages)
+  );
+
+  if (!commitMessage)
+    throw new GenerateCommitMessageError(GenerateCommitMessageErrorEnum.emptyMessage);
+
+  return [commitMessage];
+};
 
-    const commitMessages = [];
-    for (const promise of commitMessagePromises) {
-      commitMessages.push(await promise);
-      await delay(2000);
+/**
+ * Reduce pass for oversized diffs: synthesizes the per-chunk messages into one commit message.
+ * When the messages don't fit into a single request they are reduced in batches, and the batch
+ * results are reduced again until one message is left. Candidates come from the last round.
+ */
+const reduceCommitMessages = async (
+  commitMessages: string[],
+  context: GenerationContext,
+  count: number
+): Promise<string[]> => {
+  if (commitMessages.length === 1) return commitMessages;
+
+  const { config, engine, modelInfo, promptOptions, scheduleRequest } = context;
+  const REDUCE_PROMPT = await getReduceCommitPrompt(config, engine, promptOptions);
+
+  const MAX_REDUCE_TOKENS =
+    modelInfo.contextWindow -
+    ADJUSTMENT_FACTOR -
+    getTokenCount(REDUCE_PROMPT, modelInfo.tokenizer) -
+    getMaxTokens(config);
+
+  let batches = mergeDiffs(
+    commitMessages.map((commitMessage) => commitMessage + REDUCE_SEPARATOR),
+    MAX_REDUCE_TOKENS,
+    modelInfo.tokenizer
+  );
+
+  // every message fills a request on its own, pair them up so each round still shrinks the list
+  if (batches.length === commitMessages.length) {
+    batches = [];
+    for (let index = 0; index < commitMessages.length; index += 2) {
+      batches.push(commitMessages.slice(index, index + 2).join(REDUCE_SEPARATOR));
     }
+  }
 
-    return commitMessages.join('\n\n');
+  if (batches.length === 1 && count > 1) {
+    return requestCandidates(
+      [...REDUCE_PROMPT, { content: batches[0].trim(), role: 'user' }],
+      count,
+      context
+    );
   }
 
-  const messages = await generateCommitMessageChatCompletionPrompt(diff);
+  const reducedMessages = await Promise.all(
+    batches.map((batch) =>
+      scheduleRequest(() =>
+        engine.generateCommitMessage([...REDUCE_PROMPT, { content: batch.trim(), role: 'user' }])
+      )
+    )
+  );
 
-  const commitMessage = await api.generateCommitMessage(messages);
+  const commitMessagesLeft = reducedMessages.filter(Boolean) as string[];
 
-  if (!commitMessage) throw new Error(GenerateCommitMessageErrorEnum.emptyMessage);
+  if (commitMessagesLeft.length === 0) {
+    throw new GenerateCommitMessageError(GenerateCommitMessageErrorEnum.emptyMessage);
+  }
 
-  return commitMessage;
+  return reduceCommitMessages(commitMessagesLeft, context, count);
 };
 
 function getMessagesPromisesByChangesInFile(
   fileDiff: string,
   separator: string,
-  maxChangeLength: number
+  maxChangeLength: number,
+  context: GenerationContext
 ) {
+  const { engine, modelInfo, scheduleRequest } = context;
   const hunkHeaderSeparator = '@@ ';
   const [fileHeader, ...fileDiffByLines] = fileDiff.split(hunkHeaderSeparator);
 
   // merge multiple line-diffs into 1 to save tokens
   const mergedChanges = mergeDiffs(
     fileDiffByLines.map((line) => hunkHeaderSeparator + line),
-    maxChangeLength
+    maxChangeLength,
+    modelInfo.tokenizer
   );
 
   const lineDiffsWithHeader = [];
   for (const change of mergedChanges) {
     const totalChange = fileHeader + change;
-    if (tokenCount(totalChange) > maxChangeLength) {
+    if (tokenCount(totalChange, modelInfo.tokenizer) > maxChangeLength) {
       // If the totalChange is too large, split it into smaller pieces
-      const splitChanges = splitDiff(totalChange, maxChangeLength);
+      const splitChanges = splitDiff(totalChange, maxChangeLength, modelInfo.tokenizer);
       lineDiffsWithHeader.push(...splitChanges);
     } else {
       lineDiffsWithHeader.push(totalChange);
@@ -93,76 +370,122 @@ function getMessagesPromisesByChangesInFile(
   }
 
   const commitMsgsFromFileLineDiffs = lineDiffsWithHeader.map(async (lineDiff) => {
-    const messages = await generateCommitMessageChatCompletionPrompt(separator + lineDiff);
+    const messages = await generateCommitMessageChatCompletionPrompt(separator + lineDiff, context);
 
-    return api.generateCommitMessage(messages);
+    return scheduleRequest(() => engine.generateCommitMessage(messages));
   });
 
   return commitMsgsFromFileLineDiffs;
 }
 
-function splitDiff(diff: string, maxChangeLength: number) {
-  const lines = diff.split('\n');
-  const splitDiffs = [];
-  let currentDiff = '';
-
-  for (let line of lines) {
-    // If a single line exceeds maxChangeLength, split it into multiple lines
-    while (tokenCount(line) > maxChangeLength) {
-      const subLine = line.slice(0, Math.max(0, maxChangeLength));
-      line = line.slice(Math.max(0, maxChangeLength));
-      splitDiffs.push(subLine);
-    }
-
-    // Check the tokenCount of the currentDiff and the line separately
-    if (tokenCount(currentDiff) + tokenCount('\n' + line) > maxChangeLength) {
-      // If adding the next line would exceed the maxChangeLength, start a new diff
-      splitDiffs.push(currentDiff);
-      currentDiff = line;
-    } else {
-      // Otherwise, add the line to the current diff
-      currentDiff += '\n' + line;
-    }
-  }
-
-  // Add the last diff
-  if (currentDiff) {
-    splitDiffs.push(currentDiff);
-  }
-
-  return splitDiffs;
-}
-
-export const getCommitMsgsPromisesFromFileDiffs = async (diff: string, maxDiffLength: number) => {
+export const getCommitMsgsPromisesFromFileDiffs = async (
+  diff: string,
+  maxDiffLength: number,
+  context: GenerationContext = getDefaultContext()
+) => {
+  const { engine, modelInfo, scheduleRequest } = context;
   const separator = 'diff --git ';
 
   const diffByFiles = diff.split(separator).slice(1);
 
   // merge multiple files-diffs into 1 prompt to save tokens
-  const mergedFilesDiffs = mergeDiffs(diffByFiles, maxDiffLength);
+  const mergedFilesDiffs = mergeDiffs(diffByFiles, maxDiffLength, modelInfo.tokenizer);
 
   const commitMessagePromises = [];
 
   for (const fileDiff of mergedFilesDiffs) {
-    if (tokenCount(fileDiff) >= maxDiffLength) {
+    if (tokenCount(fileDiff, modelInfo.tokenizer) >= maxDiffLength) {
       // if file-diff is bigger than gpt context — split fileDiff into lineDiff
       const messagesPromises = getMessagesPromisesByChangesInFile(
         fileDiff,
         separator,
-        maxDiffLength
+        maxDiffLength,
+        context
       );
 
       commitMessagePromises.push(...messagesPromises);
     } else {
-      const messages = await generateCommitMessageChatCompletionPrompt(separator + fileDiff);
+      const messages = await generateCommitMessageChatCompletionPrompt(
+        separator + fileDiff,
+        context
+      );
 
-      commitMessagePromises.push(api.generateCommitMessage(messages));
+      commitMessagePromises.push(scheduleRequest(() => engine.generateCommitMessage(messages)));
     }
   }
 
   return commitMessagePromises;
 };
 
-function delay(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+// the top-level directory, or the file itself at the root of the repo
+const getTopLevelPath = (file: string) => file.split('/')[0];
+
+/**
+ * Reads the groups out of the model's answer. Unknown and repeated files are dropped, files the
+ * answer leaves out are committed last, together. An answer that isn't a JSON array of arrays
+ * falls back to one group per top-level directory.
+ */
+const parseCommitGroups = (answer: string, files: string[]): string[][] => {
+  let groups: unknown;
+  try {
+    groups = JSON.parse(answer.slice(answer.indexOf('['), answer.lastIndexOf(']') + 1));
+  } catch {
+    groups = undefined;
+  }
+
+  if (!Array.isArray(groups) || !groups.every((group) => Array.isArray(group))) {
+    const directories = [...new Set(files.map((file) => getTopLevelPath(file)))];
+    return directories.map((directory) =>
+      files.filter((file) => getTopLevelPath(file) === directory)
+    );
+  }
+
+  const filesLeft = new Set(files);
+  const validGroups = (groups as unknown[][]).map((group) =>
+    group.filter((file): file is string => typeof file === 'string' && filesLeft.delete(file))
+  );
+
+  return [...validGroups, [...filesLeft]].filter((group) => group.length > 0);
+};
+
+/**
+ * Proposes how to split the staged `files` into atomic commits, returned as groups of files in
+ * the order they should be committed. Sends the whole diff when it fits into a single request,
+ * only its file and hunk headers otherwise.
+ */
+export const generateCommitGroupsByDiff = async (
+  diff: string,
+  files: string[],
+  { config, engine }: Pick<GenerateCommitMessageOptions, 'config' | 'engine'> = {}
+): Promise<string[][]> => {
+  const context =
+    config === undefined && engine === undefined
+      ? getDefaultContext()
+      : createGenerationContext(config ?? {}, engine);
+  const { modelInfo, scheduleRequest } = context;
+
+  const prompt = INIT_GROUPS_PROMPT(files);
+  const MAX_REQUEST_TOKENS =
+    modelInfo.contextWindow -
+    ADJUSTMENT_FACTOR -
+    getTokenCount([prompt], modelInfo.tokenizer) -
+    getMaxTokens(context.config);
+
+  const diffHeaders = diff
+    .split('\n')
+    .filter((line) => line.startsWith('diff --git ') || line.startsWith('@@ '))
+    .join('\n');
+
+  const content =
+    tokenCount(diff, modelInfo.tokenizer) < MAX_REQUEST_TOKENS
+      ? diff
+      : splitDiff(diffHeaders, MAX_REQUEST_TOKENS, modelInfo.tokenizer)[0];
+
+  const answer = await scheduleRequest(() =>
+    context.engine.generateCommitMessage([prompt, { content, role: 'user' }])
+  ).catch((error) => {
+    throw toGenerationError(error);
+  });
+
+  return parseCommitGroups(answer ?? '', files);
+};
@@ -1,20 +1,29 @@
-import { unlinkSync, writeFileSync } from 'node:fs';
-
 import core from '@actions/core';
 import exec from '@actions/exec';
 import github from '@actions/github';
 import { intro, outro } from '@clack/prompts';
 import type { PushEvent } from '@octokit/webhooks-types';
+import * as dotenv from 'dotenv';
 
+import { type ConfigType, getConfig } from './commands/config';
+import { getErrorMessage } from './errors';
 import { generateCommitMessageByDiff } from './generate-commit-message-from-git-diff';
-import { randomIntFromInterval } from './utils/random-int-from-interval';
-import { sleep } from './utils/sleep';
+import { rewordCommits } from './utils/git';
+import { protectDiff } from './utils/secrets';
+import { createScheduler } from './utils/scheduler';
+import { setUsageCommand, USAGE_COMMAND } from './utils/usage';
+
+dotenv.config();
+
+setUsageCommand(USAGE_COMMAND.githubAction);
 
 // This should be a token with access to your repository scoped in as a secret.
 // The YML workflow will need to set GITHUB_TOKEN with the GitHub Secret Token
 // GITHUB_TOKEN: ${{ secrets.GITHUB_TOKEN }}
 // https://help.github.com/en/actions/automating-your-workflow-with-github-actions/authenticating-with-the-github_token#about-the-github_token-secret
 const GITHUB_TOKEN = core.getInput('GITHUB_TOKEN');
+// optional rationale passed to the prompt of every commit, e.g. the pull request description
+const CONTEXT = core.getInput('context') || undefined;
 const octokit = github.getOctokit(GITHUB_TOKEN);
 const context = github.context;
 const owner = context.repo.owner;
@@ -42,51 +51,24 @@ interface MessageAndSHA {
   msg: string;
 }
 
-// send only 3-4 size chunks of diffs in steps,
-// because openAI restricts "too many requests" at once with 429 error
-async function improveMessagesInChunks(diffsAndSHAs: DiffAndSHA[]) {
-  const chunkSize = diffsAndSHAs.length % 2 === 0 ? 4 : 3;
-  outro(`Improving commit messages in chunks of ${chunkSize}.`);
-  const improvePromises = diffsAndSHAs.map((commit) => generateCommitMessageByDiff(commit.diff));
-
-  const improvedMessagesAndSHAs: MessageAndSHA[] = [];
-  for (let step = 0; step < improvePromises.length; step += chunkSize) {
-    const chunkOfPromises = improvePromises.slice(step, step + chunkSize);
-
-    try {
-      const chunkOfImprovedMessages = await Promise.all(chunkOfPromises);
-
-      const chunkOfImprovedMessagesBySha = chunkOfImprovedMessages.map((improvedMessage, index) => {
-        const total = improvedMessagesAndSHAs.length;
-        const sha = diffsAndSHAs[total + index].sha;
-
-        return { msg: improvedMessage, sha };
-      });
-
-      improvedMessagesAndSHAs.push(...chunkOfImprovedMessagesBySha);
-
-      // sometimes openAI errors with 429 code (too many requests),
-      // so lets sleep a bit
-      const sleepFor = 1000 * randomIntFromInterval(1, 5) + 100 * randomIntFromInterval(1, 5);
-
-      outro(`Improved ${chunkOfPromises.length} messages. Sleeping for ${sleepFor}`);
-
-      await sleep(sleepFor);
-    } catch (error) {
-      outro(error as string);
-
-      // if sleeping in try block still fails with 429,
-      // openAI wants at least 1 minute before next request
-      const sleepFor = 60_000 + 1000 * randomIntFromInterval(1, 5);
-      outro(`Retrying after sleeping for ${sleepFor}`);
-      await sleep(sleepFor);
-
-      // go to previous step
-      step -= chunkSize;
-    }
-  }
-
-  return improvedMessagesAndSHAs;
+async function improveMessagesInChunks(
+  diffsAndSHAs: DiffAndSHA[],
+  config: ConfigType | null
+): Promise<MessageAndSHA[]> {
+  outro(`Improving ${diffsAndSHAs.length} commit messages.`);
+
+  // requests are throttled and retried on 429 by the scheduler inside generateCommitMessageByDiff,
+  // this one only bounds how many commits are improved at the same time
+  const scheduleCommit = createScheduler({ concurrency: config?.OCO_API_CONCURRENCY, retries: 0 });
+
+  return Promise.all(
+    diffsAndSHAs.map(({ diff, sha }) =>
+      scheduleCommit(async () => ({
+        msg: await generateCommitMessageByDiff(protectDiff(diff, config), { context: CONTEXT }),
+        sha
+      }))
+    )
+  );
 }
 
 const getDiffsBySHAs = async (SHAs: string[]) => {
@@ -101,7 +83,8 @@ const getDiffsBySHAs = async (SHAs: string[]) => {
 };
 
 async function improveCommitMessages(
-  commitsToImprove: { id: string; message: string }[]
+  commitsToImprove: { id: string; message: string }[],
+  config: ConfigType | null
 ): Promise<void> {
   if (commitsToImprove.length > 0) {
     outro(`Found ${commitsToImprove.length} commits to improve.`);
@@ -115,7 +98,7 @@ async function improveCommitMessages(
   const diffsWithSHAs = await getDiffsBySHAs(commitSHAsToImprove);
   outro('Done.');
 
-  const improvedMessagesWithSHAs = await improveMessagesInChunks(diffsWithSHAs);
+  const improvedMessagesWithSHAs = await improveMessagesInChunks(diffsWithSHAs, config);
 
   console.log(`Improved ${improvedMessagesWithSHAs.length} commits:`, improvedMessagesWithSHAs);
 
@@ -129,36 +112,15 @@ async function improveCommitMessages(
     return;
   }
 
-  const createCommitMessageFile = (message: string, index: number) =>
-    writeFileSync(`./commit-${index}.txt`, message);
-  for (const [index, { msg }] of improvedMessagesWithSHAs.entries())
-    createCommitMessageFile(msg, index);
-
-  writeFileSync(`./count.txt`, '0');
-
-  writeFileSync(
-    './rebase-exec.sh',
-    `#!/bin/bash
-    count=$(cat count.txt)
-    git commit --amend -F commit-$count.txt
-    echo $(( count + 1 )) > count.txt`
-  );
-
-  await exec.exec(`chmod +x ./rebase-exec.sh`);
-
-  await exec.exec('git', ['rebase', `${commitsToImprove[0].id}^`, '--exec', './rebase-exec.sh'], {
-    env: {
+  // messages are matched to commits by SHA, commits missing from the push are picked as they are
+  await rewordCommits(
+    commitsToImprove[0].id,
+    new Map(improvedMessagesWithSHAs.map(({ msg, sha }) => [sha, msg])),
+    {
       GIT_COMMITTER_EMAIL: `${process.env['GITHUB_ACTOR']}@users.noreply.github.com`,
-      GIT_COMMITTER_NAME: process.env['GITHUB_ACTOR']!,
-      GIT_SEQUENCE_EDITOR: 'sed -i -e "s/^pick/reword/g"'
+      GIT_COMMITTER_NAME: process.env['GITHUB_ACTOR']!
     }
-  });
-
-  const deleteCommitMessageFile = (index: number) => unlinkSync(`./commit-${index}.txt`);
-  for (const [index] of commitsToImprove.entries()) deleteCommitMessageFile(index);
-
-  unlinkSync('./count.txt');
-  unlinkSync('./rebase-exec.sh');
+  );
 
   outro('Force pushing non-interactively rebased commits into remote.');
 
@@ -174,6 +136,9 @@ async function run() {
   intro('OpenCommit — improving lame commit messages');
 
   try {
+    // read here, an invalid config fails the action like any other error
+    const config = getConfig();
+
     if (github.context.eventName === 'push') {
       outro(`Processing commits in a Push event`);
 
@@ -190,7 +155,7 @@ async function run() {
       await exec.exec('git', ['status']);
       await exec.exec('git', ['log', '--oneline']);
 
-      await improveCommitMessages(commits);
+      await improveCommitMessages(commits, config);
     } else {
       outro('Wrong action.');
       core.error(
@@ -198,13 +163,7 @@ async function run() {
       );
     }
   } catch (error: unknown) {
-    if (error instanceof Error) {
-      core.setFailed(error.message);
-    } else if (typeof error === 'string') {
-      core.setFailed(error);
-    } else {
-      core.setFailed('Unknown error');
-    }
+    core.setFailed(getErrorMessage(error));
   }
 }
 
@@ -92,3 +92,5 @@ export function getI18nLocal(value: string): string | boolean {
   }
   return false;
 }
+
+export const getTranslation = (language?: string) => i18n[(language as I18nLocals) || 'en'];
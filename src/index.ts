@@ -0,0 +1,80 @@
+import { AI_PROVIDER, parseConfig } from './commands/config';
+import type { AiEngine } from './engine/engine';
+import { generateCommitMessageByDiff } from './generate-commit-message-from-git-diff';
+import { getEngine } from './utils/engine';
+import { applySecretsPolicy } from './utils/secrets';
+
+export interface GenerateCommitMessageParameters {
+  /**
+   * Reuse messages cached in `~/.opencommit-cache` for the same diff, prompt and model. Disabled
+   * by default.
+   */
+  cache?: boolean;
+
+  /**
+   * Config keys as documented in the README, e.g. `{ OCO_OPENAI_API_KEY: '...' }`. Nothing is
+   * read from `~/.opencommit` or the environment.
+   */
+  config?: Record<string, unknown>;
+
+  // why the changes were made, the diff alone only shows what changed
+  context?: string;
+
+  // output of `git diff --staged`, or any other unified diff
+  diff: string;
+
+  onToken?: (token: string) => void;
+
+  // a provider name overriding `OCO_AI_PROVIDER`, or an engine of your own
+  provider?: `${AI_PROVIDER}` | AiEngine;
+
+  /**
+   * Append the tokens of every request to `~/.opencommit-usage.jsonl`, which `oco usage` sums up.
+   * Disabled by default.
+   */
+  recordUsage?: boolean;
+}
+
+/**
+ * Generates a commit message for a diff. Throws a `ConfigError` on invalid config, a
+ * `MissingApiKeyError` when the provider's credentials aren't set and a
+ * `GenerateCommitMessageError` when no message could be generated, with the provider's error as
+ * its `cause` when the request failed. Possible secrets in the diff are redacted before it's sent,
+ * or a `SecretsFoundError` is thrown when `OCO_SECRETS` is `block`.
+ */
+export const generateCommitMessage = async ({
+  cache = false,
+  config = {},
+  context,
+  diff,
+  onToken,
+  provider,
+  recordUsage = false
+}: GenerateCommitMessageParameters): Promise<string> => {
+  const validConfig = parseConfig({
+    ...config,
+    ...(typeof provider === 'string' && { OCO_AI_PROVIDER: provider })
+  });
+
+  const engine = typeof provider === 'object' ? provider : getEngine(validConfig, { recordUsage });
+
+  return generateCommitMessageByDiff(applySecretsPolicy(diff, validConfig).diff, {
+    cache,
+    config: validConfig,
+    context,
+    engine,
+    onToken
+  });
+};
+
+export { AI_PROVIDER, CONFIG_KEYS, type ConfigType } from './commands/config';
+export type { AiEngine, AiEngineConfig } from './engine/engine';
+export { getModelInfo, type ModelInfo, type ModelPricing } from './engine/models';
+export {
+  ConfigError,
+  GenerateCommitMessageError,
+  GenerateCommitMessageErrorEnum,
+  MissingApiKeyError,
+  OpenCommitError,
+  SecretsFoundError
+} from './errors';
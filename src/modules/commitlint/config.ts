@@ -1,8 +1,8 @@
 import { spinner } from '@clack/prompts';
 
-import { api } from '../../api';
-import { getConfig } from '../../commands/config';
-import { i18n, I18nLocals } from '../../i18n';
+import type { ConfigType } from '../../commands/config';
+import type { AiEngine } from '../../engine/engine';
+import { getTranslation } from '../../i18n';
 import { COMMITLINT_LLM_CONFIG_PATH } from './constants';
 import { computeHash } from './crypto';
 import { commitlintPrompts, inferPromptsFromCommitlintConfig } from './prompts';
@@ -10,10 +10,13 @@ import { getCommitLintPWDConfig } from './pwd-commitlint';
 import type { CommitlintLLMConfig } from './types';
 import * as utils from './utils';
 
-const config = getConfig();
-const translation = i18n[(config?.OCO_LANGUAGE as I18nLocals) || 'en'];
+export const configureCommitlintIntegration = async (
+  config: ConfigType | null,
+  engine: AiEngine,
+  force = false
+) => {
+  const translation = getTranslation(config?.OCO_LANGUAGE);
 
-export const configureCommitlintIntegration = async (force = false) => {
   const spin = spinner();
   spin.start('Loading @commitlint configuration');
 
@@ -46,7 +49,10 @@ export const configureCommitlintIntegration = async (force = false) => {
 
   const prompts = inferPromptsFromCommitlintConfig(commitLintConfig);
 
-  const consistencyPrompts = commitlintPrompts.GEN_COMMITLINT_CONSISTENCY_PROMPT(prompts);
+  const consistencyPrompts = commitlintPrompts.GEN_COMMITLINT_CONSISTENCY_PROMPT(
+    prompts,
+    translation.localLanguage
+  );
 
   // debug prompt which will generate a consistency
   // await fs.writeFile(
@@ -54,7 +60,7 @@ export const configureCommitlintIntegration = async (force = false) => {
   //   consistencyPrompts.map((p) => p.content)
   // );
 
-  let consistency = (await api.generateCommitMessage(consistencyPrompts)) ?? '{}';
+  let consistency = (await engine.generateCommitMessage(consistencyPrompts)) ?? '{}';
 
   // Cleanup the consistency answer. Sometimes 'gpt-3.5-turbo' sends rule's back.
   for (const prompt of prompts) consistency = consistency.replace(prompt, '');
@@ -9,13 +9,9 @@ import {
   type RuleConfigTuple
 } from '@commitlint/types';
 
-import { getConfig } from '../../commands/config';
-import { i18n, I18nLocals } from '../../i18n';
+import type { ConfigType } from '../../commands/config';
 import { IDENTITY, INIT_DIFF_PROMPT } from '../../prompts';
 
-const config = getConfig();
-const translation = i18n[(config?.OCO_LANGUAGE as I18nLocals) || 'en'];
-
 type DeepPartial<T> = {
   [P in keyof T]?: {
     [K in keyof T[P]]?: T[P][K];
@@ -194,7 +190,8 @@ const STRUCTURE_OF_COMMIT = `
 
 // Prompt to generate LLM-readable rules based on @commitlint rules.
 const GEN_COMMITLINT_CONSISTENCY_PROMPT = (
-  prompts: string[]
+  prompts: string[],
+  language: string
 ): OpenAI.Chat.ChatCompletionMessageParam[] => [
   {
     // prettier-ignore
@@ -212,7 +209,7 @@ JSON Output Format:
 - The JSON output should contain the commit messages for a bug fix and a new feature in the following format:
 \`\`\`json
 {
-  "localLanguage": "${translation.localLanguage}",
+  "localLanguage": "${language}",
   "commitFix": "<Header of commit for bug fix>",
   "commitFeat": "<Header of commit for feature>",
   "commitDescription": "<Description of commit for both the bug fix and the feature>"
@@ -236,11 +233,13 @@ Example Git Diff is to follow:`,
  *
  * @param language
  * @param prompts
+ * @param config
  * @returns
  */
 const INIT_MAIN_PROMPT = (
   language: string,
-  prompts: string[]
+  prompts: string[],
+  config: ConfigType | null
 ): OpenAI.Chat.ChatCompletionMessageParam => ({
   // prettier-ignore
   content: `${IDENTITY} Your mission is to create clean and comprehensive commit messages in the given @commitlint convention and explain WHAT were the changes and WHY the changes were done. I'll send you an output of 'git diff --staged' command, and you convert it into a commit message.
@@ -1,27 +1,31 @@
 import { note } from '@clack/prompts';
 import OpenAI from 'openai';
 
-import { getConfig } from './commands/config';
-import { i18n, I18nLocals } from './i18n';
+import type { ConfigType } from './commands/config';
+import type { AiEngine } from './engine/engine';
+import { getTranslation } from './i18n';
 import { configureCommitlintIntegration } from './modules/commitlint/config';
 import { commitlintPrompts } from './modules/commitlint/prompts';
 import type { ConsistencyPrompt } from './modules/commitlint/types';
 import * as utils from './modules/commitlint/utils';
-
-const config = getConfig();
-const translation = i18n[(config?.OCO_LANGUAGE as I18nLocals) || 'en'];
+import { getRecentCommitMessages } from './utils/git';
 
 export const IDENTITY = 'You are to act as the author of a commit message in git.';
 
-const INIT_MAIN_PROMPT = (language: string): OpenAI.Chat.ChatCompletionMessageParam => ({
-  content: `${IDENTITY} Your mission is to create clean and comprehensive commit messages as per the conventional commit convention and explain WHAT were the changes and mainly WHY the changes were done. I'll send you an output of 'git diff --staged' command, and you are to convert it into a commit message.
+const INIT_MAIN_PROMPT = (
+  language: string,
+  config: ConfigType | null,
+  // whether the style comes from the repo's history, see `INIT_HISTORY_PROMPT`
+  isHistoryStyle = false
+): OpenAI.Chat.ChatCompletionMessageParam => ({
+  content: `${IDENTITY} Your mission is to create clean and comprehensive commit messages ${isHistoryStyle ? "in the style of the repository's recent commits" : 'as per the conventional commit convention'} and explain WHAT were the changes and mainly WHY the changes were done. I'll send you an output of 'git diff --staged' command, and you are to convert it into a commit message.
     ${config?.OCO_EMOJI ? 'Use GitMoji convention to preface the commit.' : 'Do not preface the commit with anything.'}
     ${
       config?.OCO_DESCRIPTION
         ? 'Add a short description of WHY the changes are done after the commit message. Don\'t start it with "This commit", just describe the changes.'
         : "Don't add any descriptions to the commit, only commit message."
     }
-    Use the present tense. Lines must not be longer than 74 characters. Use ${language} for the commit message.`,
+    ${isHistoryStyle ? '' : 'Use the present tense. '}Lines must not be longer than 74 characters. Use ${language} for the commit message.`,
   role: 'system'
 });
 
@@ -54,7 +58,8 @@ export const INIT_DIFF_PROMPT: OpenAI.Chat.ChatCompletionMessageParam = {
 };
 
 const INIT_CONSISTENCY_PROMPT = (
-  translation: ConsistencyPrompt
+  translation: ConsistencyPrompt,
+  config: ConfigType | null
 ): OpenAI.Chat.ChatCompletionMessageParam => ({
   content: `${config?.OCO_EMOJI ? '🐛 ' : ''}${translation.commitFix}
 ${config?.OCO_EMOJI ? '✨ ' : ''}${translation.commitFeat}
@@ -62,32 +67,136 @@ ${config?.OCO_DESCRIPTION ? translation.commitDescription : ''}`,
   role: 'assistant'
 });
 
-export const getMainCommitPrompt = async (): Promise<OpenAI.Chat.ChatCompletionMessageParam[]> => {
+export const REDUCE_SEPARATOR = '\n---\n';
+
+// long bodies say more about the change than about the style, the first lines are enough
+const MAX_HISTORY_EXAMPLE_LINES = 10;
+
+/**
+ * Replaces the built-in example with the messages of the repo's recent commits when
+ * `OCO_STYLE_FROM_HISTORY` is set, so the message follows the conventions the team already uses.
+ */
+const INIT_HISTORY_PROMPT = (messages: string[]): OpenAI.Chat.ChatCompletionMessageParam => ({
+  content: `These are the messages of the repository's most recent commits, separated by '${REDUCE_SEPARATOR.trim()}'. Follow their conventions for types and scopes, tense, ticket prefixes, capitalization and length, but describe the staged changes, never copy these messages:
+${messages
+  .map((message) => message.split('\n').slice(0, MAX_HISTORY_EXAMPLE_LINES).join('\n'))
+  .join(REDUCE_SEPARATOR)}`,
+  role: 'system'
+});
+
+const INIT_REDUCE_PROMPT: OpenAI.Chat.ChatCompletionMessageParam = {
+  content: `The output of 'git diff --staged' was too large to send at once, so it was split into parts and a commit message was written for each part. I'll send you these partial commit messages separated by '${REDUCE_SEPARATOR.trim()}'. Combine them into a single commit message describing the whole change, strictly following the conventions above. Lead with the most important change, don't list the parts one by one and don't mention that the diff was split.`,
+  role: 'system'
+};
+
+const INIT_HINT_PROMPT = (hint: string): OpenAI.Chat.ChatCompletionMessageParam => ({
+  content: `The author of the changes gave the following hint, follow it when writing the commit message: ${hint}`,
+  role: 'system'
+});
+
+const INIT_CONTEXT_PROMPT = (context: string): OpenAI.Chat.ChatCompletionMessageParam => ({
+  content: `The author of the changes explained why they made them, use it to explain WHY in the commit message instead of guessing: ${context}`,
+  role: 'system'
+});
+
+export interface CommitPromptOptions {
+  // rationale for the changes given by the developer, the diff alone only shows what changed
+  context?: string;
+  // free-text instructions from the user, e.g. when asking for another message
+  hint?: string;
+}
+
+const getUserPrompt = ({ context, hint }: CommitPromptOptions) => [
+  ...(context ? [INIT_CONTEXT_PROMPT(context)] : []),
+  ...(hint ? [INIT_HINT_PROMPT(hint)] : [])
+];
+
+/**
+ * Prompt for `oco split`: asks which staged files belong in the same commit. The answer is JSON so
+ * it can be checked against the staged files.
+ */
+export const INIT_GROUPS_PROMPT = (files: string[]): OpenAI.Chat.ChatCompletionMessageParam => ({
+  content: `${IDENTITY} The staged changes touch unrelated areas and have to be split into atomic commits, each one a single logical change. I'll send you an output of 'git diff --staged' command, or only its file and hunk headers when it's too large. Group the files below into commits, every file must be in exactly one group, and order the groups so that each commit builds on the previous ones. Answer with a JSON array of arrays of file paths and nothing else, e.g. [["src/api.ts","src/api.test.ts"],["README.md"]].
+Files:
+${files.join('\n')}`,
+  role: 'system'
+});
+
+/**
+ * Prompt for the reduce pass of oversized diffs: merges the messages generated for each chunk
+ * into one, using the same conventions as the active prompt module.
+ */
+export const getReduceCommitPrompt = async (
+  config: ConfigType | null,
+  engine: AiEngine,
+  options: CommitPromptOptions = {}
+): Promise<OpenAI.Chat.ChatCompletionMessageParam[]> => {
+  // all of it, e.g. with `OCO_STYLE_FROM_HISTORY` the recent commits it refers to come after it
+  const mainPrompt = await getMainCommitPrompt(config, engine);
+
+  return [...mainPrompt, INIT_REDUCE_PROMPT, ...getUserPrompt(options)];
+};
+
+/**
+ * `engine` is only called by the @commitlint module, to generate the consistency examples of a
+ * project the first time it's used there.
+ */
+export const getMainCommitPrompt = async (
+  config: ConfigType | null,
+  engine: AiEngine,
+  options: CommitPromptOptions = {}
+): Promise<OpenAI.Chat.ChatCompletionMessageParam[]> => {
+  const prompt = await getPromptModulePrompt(config, engine);
+
+  return [...prompt, ...getUserPrompt(options)];
+};
+
+const getPromptModulePrompt = async (
+  config: ConfigType | null,
+  engine: AiEngine
+): Promise<OpenAI.Chat.ChatCompletionMessageParam[]> => {
+  const translation = getTranslation(config?.OCO_LANGUAGE);
+
   switch (config?.OCO_PROMPT_MODULE) {
     case '@commitlint': {
       if (!(await utils.commitlintLLMConfigExists())) {
         note(
           `OCO_PROMPT_MODULE is @commitlint but you haven't generated consistency for this project yet.`
         );
-        await configureCommitlintIntegration();
+        await configureCommitlintIntegration(config, engine);
       }
 
       // Replace example prompt with a prompt that's generated by OpenAI for the commitlint config.
       const commitLintConfig = await utils.getCommitlintLLMConfig();
 
       return [
-        commitlintPrompts.INIT_MAIN_PROMPT(translation.localLanguage, commitLintConfig.prompts),
+        commitlintPrompts.INIT_MAIN_PROMPT(
+          translation.localLanguage,
+          commitLintConfig.prompts,
+          config
+        ),
         INIT_DIFF_PROMPT,
-        INIT_CONSISTENCY_PROMPT(commitLintConfig.consistency[translation.localLanguage])
+        INIT_CONSISTENCY_PROMPT(commitLintConfig.consistency[translation.localLanguage], config)
       ];
     }
 
     default: {
+      const historyMessages = config?.OCO_STYLE_FROM_HISTORY
+        ? await getRecentCommitMessages(config.OCO_STYLE_FROM_HISTORY)
+        : [];
+
+      if (historyMessages.length > 0) {
+        return [
+          INIT_MAIN_PROMPT(translation.localLanguage, config, true),
+          INIT_HISTORY_PROMPT(historyMessages)
+        ];
+      }
+
       // conventional-commit
       return [
-        INIT_MAIN_PROMPT(translation.localLanguage),
+        INIT_MAIN_PROMPT(translation.localLanguage, config),
         INIT_DIFF_PROMPT,
-        INIT_CONSISTENCY_PROMPT(translation)
+        INIT_CONSISTENCY_PROMPT(translation, config)
       ];
     }
   }
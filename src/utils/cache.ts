@@ -0,0 +1,86 @@
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join as pathJoin } from 'node:path';
+import OpenAI from 'openai';
+
+import { computeHash } from '../modules/commitlint/crypto';
+
+export const CACHE_PATH = pathJoin(homedir(), '.opencommit-cache');
+
+export const DEFAULT_CACHE_TTL = 86_400;
+export const DEFAULT_CACHE_MAX_ENTRIES = 100;
+
+interface CacheEntry {
+  createdAt: number;
+  message: string;
+}
+
+type Cache = Record<string, CacheEntry>;
+
+interface CacheOptions {
+  // maximum age of an entry, in seconds
+  ttl: number;
+  maxEntries: number;
+}
+
+const readCache = (): Cache => {
+  if (!existsSync(CACHE_PATH)) return {};
+
+  try {
+    return JSON.parse(readFileSync(CACHE_PATH, 'utf8')) as Cache;
+  } catch {
+    // a corrupted cache is as good as an empty one
+    return {};
+  }
+};
+
+const isFresh = (entry: CacheEntry, ttl: number) => Date.now() - entry.createdAt < ttl * 1000;
+
+interface CacheTarget {
+  // e.g. a local proxy or Ollama server, `undefined` for the provider's own endpoint
+  baseUrl?: string;
+  model: string;
+  provider: string;
+}
+
+/**
+ * The same staged diff sent with the same prompt to the same model of the same provider gets the
+ * same answer, so it's not worth paying for twice, e.g. after cancelling or when `git commit`
+ * fails on a hook.
+ */
+export const getCacheKey = (
+  diff: string,
+  prompt: OpenAI.Chat.ChatCompletionMessageParam[],
+  { baseUrl, model, provider }: CacheTarget
+) => computeHash(JSON.stringify({ baseUrl, diff, model, prompt, provider }));
+
+export const getCachedMessage = (key: string, { ttl }: CacheOptions): string | undefined => {
+  const entry = readCache()[key];
+
+  return entry && isFresh(entry, ttl) ? entry.message : undefined;
+};
+
+export const setCachedMessage = (
+  key: string,
+  message: string,
+  { maxEntries, ttl }: CacheOptions
+) => {
+  const freshEntries = Object.entries(readCache()).filter(
+    ([entryKey, entry]) => entryKey !== key && isFresh(entry, ttl)
+  );
+
+  // keep the newest entries only
+  const entries = [...freshEntries, [key, { createdAt: Date.now(), message }] as const]
+    .sort(([, a], [, b]) => b.createdAt - a.createdAt)
+    .slice(0, maxEntries);
+
+  writeFileSync(CACHE_PATH, JSON.stringify(Object.fromEntries(entries)), 'utf8');
+};
+
+export const clearCache = (): number => {
+  const count = Object.keys(readCache()).length;
+
+  rmSync(CACHE_PATH, { force: true });
+
+  return count;
+};
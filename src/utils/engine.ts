@@ -0,0 +1,166 @@
+import { AI_PROVIDER, CONFIG_KEYS, type ConfigType, DEFAULT_MODELS } from '../commands/config';
+import { AnthropicEngine } from '../engine/anthropic';
+import { AzureEngine } from '../engine/azure';
+import {
+  CASSETTE_MODE,
+  CassetteEngine,
+  DEFAULT_CASSETTE_PATH,
+  DEFAULT_CASSETTE_STUB_RESPONSE
+} from '../engine/cassette';
+import type { AiEngine } from '../engine/engine';
+import { MissingApiKeyError } from '../errors';
+import { getModelInfo, type ModelInfo } from '../engine/models';
+import { OllamaEngine } from '../engine/ollama';
+import { OpenAiEngine } from '../engine/open-ai';
+import { recordUsage, type TokenUsage } from './usage';
+
+const DEFAULT_MAX_TOKENS = 500;
+
+export const getActiveModelInfo = (config: ConfigType | null): ModelInfo =>
+  getModelInfo(getModel(config), config?.OCO_CUSTOM_MODELS);
+
+/**
+ * Tokens reserved for the answer: `OCO_OPENAI_MAX_TOKENS`, capped by what the model can output.
+ */
+export const getMaxTokens = (config: ConfigType | null): number =>
+  Math.min(
+    config?.OCO_OPENAI_MAX_TOKENS || DEFAULT_MAX_TOKENS,
+    getActiveModelInfo(config).maxOutputTokens
+  );
+
+export const getProvider = (config: ConfigType | null): AI_PROVIDER =>
+  config?.OCO_AI_PROVIDER ?? AI_PROVIDER.openai;
+
+export const getModel = (config: ConfigType | null): string =>
+  config?.OCO_MODEL || DEFAULT_MODELS[getProvider(config)];
+
+// where the provider's requests go, `undefined` for its default endpoint
+export const getBaseUrl = (config: ConfigType | null): string | undefined => {
+  switch (getProvider(config)) {
+    case AI_PROVIDER.anthropic: {
+      return undefined;
+    }
+
+    case AI_PROVIDER.azure: {
+      return config?.OCO_AZURE_ENDPOINT;
+    }
+
+    case AI_PROVIDER.ollama: {
+      return config?.OCO_OLLAMA_API_URL;
+    }
+
+    default: {
+      return config?.OCO_OPENAI_BASE_PATH;
+    }
+  }
+};
+
+/**
+ * Returns the config key holding the credentials the selected provider can't run without, if it
+ * isn't set.
+ */
+export const getMissingApiKey = (config: ConfigType | null): CONFIG_KEYS | undefined => {
+  // replaying and stubbing never reach the provider
+  if (isOfflineCassette(config)) return undefined;
+
+  switch (getProvider(config)) {
+    case AI_PROVIDER.anthropic: {
+      return config?.OCO_ANTHROPIC_API_KEY ? undefined : CONFIG_KEYS.OCO_ANTHROPIC_API_KEY;
+    }
+
+    case AI_PROVIDER.azure: {
+      if (!config?.OCO_AZURE_API_KEY) return CONFIG_KEYS.OCO_AZURE_API_KEY;
+      return config.OCO_AZURE_ENDPOINT ? undefined : CONFIG_KEYS.OCO_AZURE_ENDPOINT;
+    }
+
+    case AI_PROVIDER.ollama: {
+      return undefined;
+    }
+
+    default: {
+      return config?.OCO_OPENAI_API_KEY ? undefined : CONFIG_KEYS.OCO_OPENAI_API_KEY;
+    }
+  }
+};
+
+const isOfflineCassette = (config: ConfigType | null) =>
+  config?.OCO_CASSETTE_MODE === CASSETTE_MODE.replay ||
+  config?.OCO_CASSETTE_MODE === CASSETTE_MODE.stub;
+
+const getProviderEngine = (config: ConfigType | null, isUsageRecorded: boolean): AiEngine => {
+  const model = getModel(config);
+  const modelInfo = getActiveModelInfo(config);
+  const maxTokens = getMaxTokens(config);
+  const provider = getProvider(config);
+  const onUsage = isUsageRecorded
+    ? (usage: TokenUsage) => recordUsage({ ...usage, model, provider })
+    : undefined;
+
+  switch (provider) {
+    case AI_PROVIDER.anthropic: {
+      return new AnthropicEngine({
+        apiKey: config?.OCO_ANTHROPIC_API_KEY,
+        maxTokens,
+        model,
+        modelInfo,
+        onUsage
+      });
+    }
+
+    case AI_PROVIDER.azure: {
+      return new AzureEngine({
+        apiKey: config?.OCO_AZURE_API_KEY,
+        apiVersion: config?.OCO_AZURE_API_VERSION,
+        endpoint: config?.OCO_AZURE_ENDPOINT,
+        maxTokens,
+        model,
+        modelInfo,
+        onUsage
+      });
+    }
+
+    case AI_PROVIDER.ollama: {
+      return new OllamaEngine({
+        baseURL: config?.OCO_OLLAMA_API_URL,
+        maxTokens,
+        model,
+        modelInfo,
+        onUsage
+      });
+    }
+
+    default: {
+      return new OpenAiEngine({
+        apiKey: config?.OCO_OPENAI_API_KEY,
+        baseURL: config?.OCO_OPENAI_BASE_PATH,
+        maxTokens,
+        model,
+        modelInfo,
+        onUsage
+      });
+    }
+  }
+};
+
+/**
+ * Builds the engine for the configured provider. Throws a `MissingApiKeyError` when the provider's
+ * credentials aren't set. Its requests are appended to the usage ledger unless `recordUsage` is
+ * false, e.g. for library callers.
+ */
+export const getEngine = (
+  config: ConfigType | null,
+  { recordUsage: isUsageRecorded = true }: { recordUsage?: boolean } = {}
+): AiEngine => {
+  const missingApiKey = getMissingApiKey(config);
+  if (missingApiKey) throw new MissingApiKeyError(missingApiKey, getProvider(config));
+
+  if (!config?.OCO_CASSETTE_MODE) return getProviderEngine(config, isUsageRecorded);
+
+  return new CassetteEngine({
+    // the provider client is only built when it is going to be called
+    engine: isOfflineCassette(config) ? undefined : getProviderEngine(config, isUsageRecorded),
+    mode: config.OCO_CASSETTE_MODE,
+    path: config.OCO_CASSETTE_PATH || DEFAULT_CASSETTE_PATH,
+    stubResponse: config.OCO_CASSETTE_STUB_RESPONSE || DEFAULT_CASSETTE_STUB_RESPONSE
+  });
+};
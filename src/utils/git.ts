@@ -1,9 +1,22 @@
 import { execa } from 'execa';
-import { readFileSync } from 'node:fs';
+import {
+  copyFileSync,
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join as pathJoin, resolve as pathResolve } from 'node:path';
 import ignore, { type Ignore } from 'ignore';
 
 import { outro, spinner } from '@clack/prompts';
 
+import { getConfig } from '../commands/config';
+import { addSymbolSummaries } from './symbols';
+import { tokenCount } from './token-count';
+
 export async function assertGitRepo() {
   try {
     await execa('git', ['rev-parse']);
@@ -16,7 +29,13 @@ export function getOpenCommitIgnore(): Ignore {
   const ig = ignore();
 
   try {
-    ig.add(readFileSync('.opencommitignore').toString().split('\n'));
+    // `secret:` lines allow secrets, see `getSecretsAllowlist`, they aren't paths
+    ig.add(
+      readFileSync('.opencommitignore')
+        .toString()
+        .split('\n')
+        .filter((line) => !line.startsWith('secret:'))
+    );
   } catch {
     /* empty */
   }
@@ -30,13 +49,27 @@ export async function getCoreHooksPath(): Promise<string> {
   return stdout;
 }
 
-export async function getStagedFiles(): Promise<string[]> {
+// what `git diff` compares: the index to `base` or `HEAD`, or with `to` that commit to `base`
+const getRevisionArguments = (base: string | undefined, to: string | undefined) =>
+  to ? [base ?? 'HEAD', to] : ['--staged', ...(base ? [base] : [])];
+
+/**
+ * With `renames: false` a renamed file is listed under its old and its new path, so committing
+ * both paths commits the whole rename. With a `base` commit, the files staged compared to it
+ * instead of `HEAD` are listed, and with a `to` commit the files it changed compared to `base`.
+ */
+export async function getStagedFiles({
+  base,
+  renames = true,
+  to
+}: { base?: string; renames?: boolean; to?: string } = {}): Promise<string[]> {
   const { stdout: gitDirectory } = await execa('git', ['rev-parse', '--show-toplevel']);
 
   const { stdout: files } = await execa('git', [
     'diff',
     '--name-only',
-    '--cached',
+    ...(renames ? [] : ['--no-renames']),
+    ...getRevisionArguments(base, to),
     '--relative',
     gitDirectory
   ]);
@@ -69,30 +102,531 @@ export async function gitAdd({ files }: { files: string[] }) {
   gitAddSpinner.stop('Done');
 }
 
-export async function getDiff({ files }: { files: string[] }) {
-  const lockFiles = files.filter(
-    (file) =>
-      file.includes('.lock') ||
-      file.includes('-lock.') ||
-      file.includes('.svg') ||
-      file.includes('.png') ||
-      file.includes('.jpg') ||
-      file.includes('.jpeg') ||
-      file.includes('.webp') ||
-      file.includes('.gif')
+/**
+ * Points git at a copy of the index for the rest of the process, removed when it exits, so files
+ * can be staged to generate a message for them, e.g. on a dry run, and stay unstaged afterwards.
+ */
+export async function useTemporaryIndex() {
+  const { stdout: indexPath } = await execa('git', ['rev-parse', '--git-path', 'index']);
+  const { stdout: temporaryIndexPath } = await execa('git', [
+    'rev-parse',
+    '--git-path',
+    'OPENCOMMIT_DRY_RUN_INDEX'
+  ]);
+  const temporaryIndex = pathResolve(temporaryIndexPath);
+
+  // already in use, e.g. after picking what to stage
+  if (process.env['GIT_INDEX_FILE'] === temporaryIndex) return;
+
+  // there's no index before anything was staged
+  if (existsSync(indexPath)) copyFileSync(indexPath, temporaryIndex);
+  process.env['GIT_INDEX_FILE'] = temporaryIndex;
+  process.on('exit', () => rmSync(temporaryIndex, { force: true }));
+}
+
+// generated files whose diffs cost many tokens and say little about the change, `OCO_EXCLUDE`
+// patterns are added after them, so e.g. `!*.svg` brings SVGs back
+const DEFAULT_EXCLUDE_PATTERNS = ['*.lock', '*-lock.*', '*.svg'];
+
+export const parseExcludePatterns = (value: string | undefined): string[] =>
+  value
+    ? value
+        .split(',')
+        .map((pattern) => pattern.trim())
+        .filter(Boolean)
+    : [];
+
+export interface ExcludedFile {
+  file: string;
+  // why its diff is left out, e.g. `binary` or `linguist-generated`
+  reason: string;
+  // sent to the model in place of the diff, e.g. `changed: package-lock.json (+120/-80)`
+  summary: string;
+}
+
+const getStagedStats = async (
+  base: string | undefined,
+  to: string | undefined,
+  files: string[]
+) => {
+  // `-z` keeps paths with special characters unquoted, binary files have `-` as their counts
+  const { stdout } = await execa('git', [
+    'diff',
+    '--numstat',
+    '--no-renames',
+    '--relative',
+    '-z',
+    ...getRevisionArguments(base, to),
+    '--',
+    ...files
+  ]);
+
+  const stats = new Map<string, { added: string; deleted: string }>();
+
+  for (const entry of stdout.split('\0')) {
+    const [added, deleted, file] = entry.split('\t');
+    if (file) stats.set(file, { added, deleted });
+  }
+
+  return stats;
+};
+
+// the files marked `linguist-generated` or `-diff` in the staged `.gitattributes`, which are also
+// used for a commit's diff
+const getExcludingAttributes = async (files: string[]) => {
+  const { stdout } = await execa('git', [
+    'check-attr',
+    '--cached',
+    '-z',
+    'linguist-generated',
+    'diff',
+    '--',
+    ...files
+  ]);
+
+  const attributes = new Map<string, string>();
+  const fields = stdout.split('\0');
+
+  for (let index = 0; index + 2 < fields.length; index += 3) {
+    const [file, attribute, value] = fields.slice(index, index + 3);
+
+    if (attribute === 'linguist-generated' && ['set', 'true'].includes(value)) {
+      attributes.set(file, 'linguist-generated');
+    }
+
+    if (attribute === 'diff' && value === 'unset' && !attributes.has(file)) {
+      attributes.set(file, '-diff');
+    }
+  }
+
+  return attributes;
+};
+
+/**
+ * The staged files whose diffs aren't sent to the model: the ones matching the default patterns or
+ * `OCO_EXCLUDE`, binary files, and the ones marked `linguist-generated` or `-diff` in
+ * `.gitattributes`. Each comes with the line summarizing its change instead.
+ */
+export async function getExcludedFiles({
+  base,
+  files,
+  to
+}: {
+  base?: string;
+  files: string[];
+  to?: string;
+}): Promise<ExcludedFile[]> {
+  if (files.length === 0) return [];
+
+  const userPatterns = parseExcludePatterns(getConfig()?.OCO_EXCLUDE);
+  const excludePatterns = ignore().add(DEFAULT_EXCLUDE_PATTERNS).add(userPatterns);
+  const userExcludePatterns = ignore().add(userPatterns);
+
+  const stats = await getStagedStats(base, to, files);
+  const attributes = await getExcludingAttributes(files);
+
+  return files.flatMap((file) => {
+    const stat = stats.get(file);
+    const isBinary = stat?.added === '-';
+
+    let reason = attributes.get(file) ?? (isBinary ? 'binary' : undefined);
+    if (excludePatterns.ignores(file)) {
+      reason = userExcludePatterns.ignores(file) ? 'OCO_EXCLUDE' : 'excluded by default';
+    }
+    if (!reason) return [];
+
+    const changes = !stat || isBinary ? '' : ` (+${stat.added}/-${stat.deleted})`;
+    return [{ file, reason, summary: `changed: ${file}${isBinary ? ' (binary)' : changes}` }];
+  });
+}
+
+// deleted files longer than this are sent as a single line, what they contained says little
+const DELETED_FILE_SUMMARY_LINES = 50;
+
+// every staged change with renames detected, paths are relative to cwd like `getStagedFiles`'
+const getStagedChanges = async (base: string | undefined, to: string | undefined) => {
+  const { stdout } = await execa('git', [
+    'diff',
+    '--name-status',
+    '-M',
+    '--relative',
+    '-z',
+    ...getRevisionArguments(base, to)
+  ]);
+
+  const fields = stdout.split('\0');
+  const changes = new Map<string, { oldPath?: string; status: string }>();
+
+  for (let index = 0; fields[index];) {
+    const status = fields[index];
+
+    // renames and copies are followed by the old and the new path
+    if (/^[CR]/.test(status)) {
+      changes.set(fields[index + 2], { oldPath: fields[index + 1], status });
+      index += 3;
+    } else {
+      changes.set(fields[index + 1], { status });
+      index += 2;
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Runs `git diff` for the files that aren't excluded, with `OCO_DIFF_CONTEXT` lines of context and
+ * whitespace changes ignored with `OCO_DIFF_IGNORE_WHITESPACE`. Pure renames and long deleted files
+ * are replaced by one line each, renamed files with changes only show the changes.
+ */
+const getCompactDiff = async (
+  base: string | undefined,
+  to: string | undefined,
+  files: string[]
+) => {
+  const config = getConfig();
+  const changes = await getStagedChanges(base, to);
+  const stats = await getStagedStats(base, to, files);
+
+  // the old path of a rename is covered by its new one, if both are being diffed
+  const renamedPaths = new Set(
+    files.flatMap((file) => {
+      const oldPath = changes.get(file)?.oldPath;
+      return oldPath && changes.get(file)?.status.startsWith('R') ? [oldPath] : [];
+    })
   );
 
-  if (lockFiles.length > 0) {
+  const summaries: string[] = [];
+  const diffPaths: string[] = [];
+
+  for (const file of files) {
+    if (renamedPaths.has(file)) continue;
+
+    const { oldPath, status } = changes.get(file) ?? { status: '' };
+    const deletedLines = Number(stats.get(file)?.deleted);
+
+    if (status === 'R100') {
+      summaries.push(`renamed: ${oldPath} → ${file}`);
+    } else if (status === 'D' && deletedLines > DELETED_FILE_SUMMARY_LINES) {
+      summaries.push(`deleted: ${file} (-${deletedLines})`);
+    } else {
+      // with both paths git detects the rename and only shows what changed
+      diffPaths.push(...(oldPath && status.startsWith('R') ? [oldPath, file] : [file]));
+    }
+  }
+
+  const whitespaceArguments = config?.OCO_DIFF_IGNORE_WHITESPACE ? ['--ignore-all-space'] : [];
+
+  // `--ignore-all-space` drops files with only whitespace changes from the diff altogether
+  if (whitespaceArguments.length > 0 && diffPaths.length > 0) {
+    const { stdout } = await execa('git', [
+      'diff',
+      '--numstat',
+      '--no-renames',
+      '--relative',
+      '-z',
+      ...whitespaceArguments,
+      ...getRevisionArguments(base, to),
+      '--',
+      ...diffPaths
+    ]);
+    // `--name-only` would still list them, `--numstat` leaves them out
+    const changedPaths = new Set(stdout.split('\0').map((line) => line.split('\t')[2]));
+
+    for (const file of diffPaths.filter((path) => files.includes(path))) {
+      if (!changedPaths.has(file)) summaries.push(`changed: ${file} (whitespace only)`);
+    }
+  }
+
+  // without paths `git diff` would diff every staged file
+  const { stdout: diff } =
+    diffPaths.length > 0
+      ? await execa('git', [
+          'diff',
+          `-U${config?.OCO_DIFF_CONTEXT ?? 3}`,
+          '-M',
+          ...whitespaceArguments,
+          ...getRevisionArguments(base, to),
+          '--',
+          ...diffPaths
+        ])
+      : { stdout: '' };
+
+  return [diff, ...summaries].filter(Boolean).join('\n');
+};
+
+/**
+ * The staged diff of `files`, compared to `HEAD` or to `base`, or the diff of the `to` commit
+ * compared to `base`, compacted by `getCompactDiff`. The
+ * diffs of excluded files, see `getExcludedFiles`, are replaced by one line each at the end, so the
+ * message still mentions them. TypeScript and JavaScript files get a summary of the exported
+ * symbols they change, see `addSymbolSummaries`.
+ */
+export async function getDiff({
+  base,
+  files,
+  quiet = false,
+  to
+}: {
+  base?: string;
+  files: string[];
+  // don't print which files are excluded and the tokens saved, e.g. when stdout is read by a script
+  quiet?: boolean;
+  to?: string;
+}) {
+  const excludedFiles = await getExcludedFiles({ base, files, to });
+
+  if (excludedFiles.length > 0 && !quiet) {
     outro(
-      `Some files are excluded by default from 'git diff'. No commit messages are generated for this files:\n${lockFiles.join('\n')}`
+      `Some files are excluded from 'git diff', only a summary of their changes is sent:\n${excludedFiles
+        .map(({ file, reason }) => `${file} (${reason})`)
+        .join('\n')}`
+    );
+  }
+
+  const excludedPaths = new Set(excludedFiles.map(({ file }) => file));
+  const includedFiles = files.filter((file) => !excludedPaths.has(file));
+
+  const diff = includedFiles.length > 0 ? await getCompactDiff(base, to, includedFiles) : '';
+
+  if (includedFiles.length > 0 && !quiet) {
+    const { stdout: fullDiff } = await execa('git', [
+      'diff',
+      ...getRevisionArguments(base, to),
+      '--',
+      ...includedFiles
+    ]);
+    const fullDiffTokens = tokenCount(fullDiff);
+    const savedTokens = fullDiffTokens - tokenCount(diff);
+
+    if (savedTokens > 0) {
+      outro(
+        `Compacted the diff, saving about ${savedTokens} tokens (${Math.round((savedTokens / fullDiffTokens) * 100)}%)`
+      );
+    }
+  }
+
+  return [
+    await addSymbolSummaries(diff, { from: base, to }),
+    ...excludedFiles.map(({ summary }) => summary)
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Opens `message` in the editor git would use for a commit message (`GIT_EDITOR`, `core.editor`,
+ * `VISUAL` or `EDITOR`) and returns the edited text, without `#` comment lines.
+ */
+export async function editMessageInEditor(message: string): Promise<string> {
+  const { stdout: editor } = await execa('git', ['var', 'GIT_EDITOR']);
+  const { stdout: messagePath } = await execa('git', [
+    'rev-parse',
+    '--git-path',
+    'OPENCOMMIT_EDITMSG'
+  ]);
+
+  writeFileSync(
+    messagePath,
+    `${message}\n\n# Edit the commit message, lines starting with '#' are ignored.\n# An empty message aborts the commit.\n`
+  );
+
+  // the editor may come with arguments, e.g. `code --wait`, so let the shell parse it
+  await execa(`${editor} "${messagePath}"`, { shell: true, stdio: 'inherit' });
+
+  return readFileSync(messagePath, 'utf8')
+    .split('\n')
+    .filter((line) => !line.startsWith('#'))
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Commits what's staged for `files` and nothing else. The commit is built in a temporary index, so
+ * the rest of the staged changes stay staged and what's staged for `files` never has to be
+ * re-staged from the working tree.
+ */
+export async function commitStagedFiles(files: string[], message: string): Promise<string> {
+  // paths are relative to the top-level, and `git apply` skips paths outside of the current directory
+  const { stdout: cwd } = await execa('git', ['rev-parse', '--show-toplevel']);
+  // `files` are relative to the current directory, like `getStagedFiles` returns them
+  const { stdout: prefix } = await execa('git', ['rev-parse', '--show-prefix']);
+  const { stdout: indexPath } = await execa(
+    'git',
+    ['rev-parse', '--git-path', 'OPENCOMMIT_INDEX'],
+    {
+      cwd
+    }
+  );
+  const environment = { GIT_INDEX_FILE: pathResolve(cwd, indexPath) };
+
+  try {
+    const { stdout: patch } = await execa(
+      'git',
+      [
+        'diff',
+        '--cached',
+        '--binary',
+        '--no-renames',
+        '--',
+        ...files.map((file) => `${prefix}${file}`)
+      ],
+      // changes to files git considers text may still not be valid UTF-8
+      { cwd, encoding: 'buffer', stripFinalNewline: false }
     );
+
+    const { exitCode } = await execa('git', ['rev-parse', '--verify', '--quiet', 'HEAD'], {
+      cwd,
+      reject: false
+    });
+    // there's no HEAD to start from before the first commit
+    await execa('git', ['read-tree', exitCode === 0 ? 'HEAD' : '--empty'], {
+      cwd,
+      env: environment
+    });
+
+    await execa('git', ['apply', '--cached', '--binary'], { cwd, env: environment, input: patch });
+    const { stdout } = await execa('git', ['commit', '-m', message], { cwd, env: environment });
+
+    return stdout;
+  } finally {
+    rmSync(environment.GIT_INDEX_FILE, { force: true });
   }
+}
 
-  const filesWithoutLocks = files.filter(
-    (file) => !file.includes('.lock') && !file.includes('-lock.')
+// what `git hash-object -t tree /dev/null` prints, the base to diff a root commit against
+const EMPTY_TREE_SHA = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * The commit `revision` was made on top of, or the empty tree when it's the first commit.
+ */
+export async function getParentCommit(revision = 'HEAD'): Promise<string> {
+  const { exitCode, stdout } = await execa(
+    'git',
+    ['rev-parse', '--verify', '--quiet', `${revision}~1`],
+    {
+      reject: false
+    }
+  );
+
+  return exitCode === 0 ? stdout : EMPTY_TREE_SHA;
+}
+
+/**
+ * The diff of the commit `sha`, excluded and compacted like a staged diff, see `getDiff`. Paths are
+ * relative to the current directory, changes outside of it are left out.
+ */
+export async function getCommitDiff(sha: string): Promise<string> {
+  const parent = await getParentCommit(sha);
+  const files = await getStagedFiles({ base: parent, to: sha });
+
+  return getDiff({ base: parent, files, quiet: true, to: sha });
+}
+
+// e.g. `dependabot[bot]` or `renovate`, their messages come from templates, not from the team
+const BOT_AUTHOR = /\[bot]|^(?:dependabot|renovate|github-actions|greenkeeper|snyk-bot)\b/i;
+
+// bots may have made most of the recent commits, so more of them are read than are needed
+const HISTORY_COMMITS_PER_EXAMPLE = 5;
+
+/**
+ * The messages of the last `count` commits written by people, to show the model how this repo's
+ * messages are written. Merges, bots' commits, fixups and reverts are left out. Empty when there
+ * are no commits yet.
+ */
+export async function getRecentCommitMessages(count: number): Promise<string[]> {
+  const { exitCode, stdout } = await execa(
+    'git',
+    [
+      'log',
+      '--no-merges',
+      `--max-count=${count * HISTORY_COMMITS_PER_EXAMPLE}`,
+      '--format=%an%x00%ae%x00%B%x1E'
+    ],
+    { reject: false }
+  );
+  if (exitCode !== 0) return [];
+
+  return stdout
+    .split('\u001E')
+    .map((commit) => commit.trim().split('\0'))
+    .filter(
+      ([name = '', email = '', message = '']) =>
+        message.trim() &&
+        !BOT_AUTHOR.test(name) &&
+        !BOT_AUTHOR.test(email) &&
+        !/^(?:fixup|squash|amend)!|^Revert "/.test(message)
+    )
+    .slice(0, count)
+    .map((commit) => commit[2].trim());
+}
+
+export async function getCommitTrailers(revision = 'HEAD'): Promise<string[]> {
+  const { stdout } = await execa('git', [
+    'log',
+    '-1',
+    '--format=%(trailers:only,unfold)',
+    revision
+  ]);
+
+  return stdout.split('\n').filter(Boolean);
+}
+
+// adds the trailers of a rewritten message, e.g. `Signed-off-by`, unless the new one has them
+export function addTrailers(message: string, trailers: string[]): string {
+  const missingTrailers = trailers.filter((trailer) => !message.includes(trailer));
+
+  return missingTrailers.length > 0 ? `${message}\n\n${missingTrailers.join('\n')}` : message;
+}
+
+/**
+ * Replaces the messages of commits, keyed by SHA, by rebasing the history from `oldestSha` on. The
+ * todo list is written up front with an `exec git commit --amend -F <sha>` after each reworded
+ * commit, so every message finds its commit by SHA however the commits before it were rewritten.
+ * Authors and trees are kept, the rebase is aborted if anything fails.
+ */
+export async function rewordCommits(
+  oldestSha: string,
+  messages: Map<string, string>,
+  environment: Record<string, string> = {}
+): Promise<void> {
+  const { exitCode, stdout: base } = await execa(
+    'git',
+    ['rev-parse', '--verify', '--quiet', `${oldestSha}~1`],
+    { reject: false }
   );
+  const isRoot = exitCode !== 0;
 
-  const { stdout: diff } = await execa('git', ['diff', '--staged', '--', ...filesWithoutLocks]);
+  const { stdout: revList } = await execa('git', [
+    'rev-list',
+    '--reverse',
+    '--no-merges',
+    isRoot ? 'HEAD' : `${base}..HEAD`
+  ]);
+
+  const directory = mkdtempSync(pathJoin(tmpdir(), 'opencommit-reword-'));
+
+  try {
+    const todo = revList.split('\n').flatMap((sha) => {
+      const message = messages.get(sha);
+      if (message === undefined) return [`pick ${sha}`];
 
-  return diff;
+      writeFileSync(pathJoin(directory, sha), message);
+      return [
+        `pick ${sha}`,
+        `exec git commit --amend --allow-empty -F '${pathJoin(directory, sha)}'`
+      ];
+    });
+
+    const todoPath = pathJoin(directory, 'git-rebase-todo');
+    writeFileSync(todoPath, `${todo.join('\n')}\n`);
+
+    await execa('git', ['rebase', '--interactive', '--autostash', isRoot ? '--root' : base], {
+      env: { ...environment, GIT_SEQUENCE_EDITOR: `cp '${todoPath}'` }
+    }).catch(async (error) => {
+      await execa('git', ['rebase', '--abort'], { reject: false });
+      throw error;
+    });
+  } finally {
+    rmSync(directory, { force: true, recursive: true });
+  }
 }
@@ -0,0 +1,160 @@
+import chalk from 'chalk';
+import { execa } from 'execa';
+
+export interface Hunk {
+  file: string;
+  // the file's diff header, e.g. the `diff --git`, `index` and `---`/`+++` lines
+  fileHeader: string[];
+  // the lines after the `@@` line, empty for changes without hunks, e.g. to binary files
+  lines: string[];
+  newCount: number;
+  newStart: number;
+  oldCount: number;
+  oldStart: number;
+  // what follows the second `@@`, usually the enclosing function
+  section: string;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+// a change without hunks can only be staged as a whole, e.g. of a binary file or a file mode
+const isWholeFile = (hunk: Hunk) => hunk.lines.length === 0;
+
+/**
+ * Splits a file's diff into its hunks. A diff without `@@` lines, e.g. of a binary file, is
+ * returned as a single hunk holding only the header.
+ */
+const parseHunks = (file: string, diff: string): Hunk[] => {
+  const lines = diff.split('\n');
+  const firstHunkIndex = lines.findIndex((line) => HUNK_HEADER.test(line));
+  const fileHeader = firstHunkIndex === -1 ? lines : lines.slice(0, firstHunkIndex);
+  const emptyHunk = { file, fileHeader, lines: [], section: '' };
+
+  if (firstHunkIndex === -1) {
+    return [{ ...emptyHunk, newCount: 0, newStart: 0, oldCount: 0, oldStart: 0 }];
+  }
+
+  const hunks: Hunk[] = [];
+
+  for (const line of lines.slice(firstHunkIndex)) {
+    const match = HUNK_HEADER.exec(line);
+
+    if (match) {
+      const [, oldStart, oldCount = '1', newStart, newCount = '1', section] = match;
+      hunks.push({
+        ...emptyHunk,
+        lines: [],
+        newCount: Number(newCount),
+        newStart: Number(newStart),
+        oldCount: Number(oldCount),
+        oldStart: Number(oldStart),
+        section
+      });
+    } else if (line) {
+      hunks.at(-1)?.lines.push(line);
+    }
+  }
+
+  return hunks;
+};
+
+/**
+ * The hunks of the unstaged changes to `files`, as `git add -p` would offer them. Untracked files
+ * are diffed against `/dev/null`, so they can be staged like the others.
+ */
+export async function getUnstagedHunks(files: string[]): Promise<Hunk[]> {
+  // `git apply` takes the patch's paths as relative to the top-level, the files are relative to cwd
+  const { stdout: prefix } = await execa('git', ['rev-parse', '--show-prefix']);
+  const { stdout: cwd } = await execa('git', ['rev-parse', '--show-toplevel']);
+
+  const { stdout: untracked } = await execa('git', [
+    'ls-files',
+    '--others',
+    '--exclude-standard',
+    '--full-name'
+  ]);
+  const untrackedFiles = new Set(untracked.split('\n'));
+
+  const hunks = await Promise.all(
+    files.map(async (file) => {
+      const path = `${prefix}${file}`;
+      const { stdout: diff } = await execa(
+        'git',
+        untrackedFiles.has(path)
+          ? ['diff', '--no-index', '--binary', '--no-color', '--', '/dev/null', path]
+          : ['diff', '--binary', '--no-color', '--no-ext-diff', '--no-renames', '--', path],
+        // `--no-index` exits with 1 when there are differences
+        { cwd, encoding: 'buffer', reject: false }
+      );
+
+      // decoded byte by byte, so changes to files that aren't valid UTF-8 are staged as they are
+      return diff.length > 0 ? parseHunks(file, diff.toString('latin1')) : [];
+    })
+  );
+
+  return hunks.flat();
+}
+
+/**
+ * Stages the picked hunks. The hunks of a file that are left out shift the lines of the ones after
+ * them, so their new start lines are moved by the lines the skipped ones add or remove.
+ */
+export async function stageHunks(hunks: Hunk[], pickedHunks: Set<Hunk>): Promise<void> {
+  const patch: string[] = [];
+  let currentFile: string | undefined;
+  let isFileHeaderWritten = false;
+  let shift = 0;
+
+  for (const hunk of hunks) {
+    if (hunk.file !== currentFile) {
+      currentFile = hunk.file;
+      isFileHeaderWritten = false;
+      shift = 0;
+    }
+
+    if (!pickedHunks.has(hunk)) {
+      shift += hunk.newCount - hunk.oldCount;
+      continue;
+    }
+
+    if (!isFileHeaderWritten) patch.push(...hunk.fileHeader);
+    isFileHeaderWritten = true;
+
+    if (isWholeFile(hunk)) continue;
+
+    patch.push(
+      `@@ -${hunk.oldStart},${hunk.oldCount} +${hunk.newStart - shift},${hunk.newCount} @@${hunk.section}`,
+      ...hunk.lines
+    );
+  }
+
+  if (patch.length === 0) return;
+
+  const { stdout: cwd } = await execa('git', ['rev-parse', '--show-toplevel']);
+  await execa('git', ['apply', '--cached', '--binary'], {
+    cwd,
+    input: Buffer.from(`${patch.join('\n')}\n`, 'latin1')
+  });
+}
+
+// the hunks were decoded byte by byte, show them as the UTF-8 they most likely are
+const decode = (line: string) => Buffer.from(line, 'latin1').toString('utf8');
+
+export const formatHunk = (hunk: Hunk) => {
+  if (isWholeFile(hunk)) {
+    const summary = hunk.fileHeader.filter((line) =>
+      /^(new file |deleted file |old |new )mode|^Binary files|^GIT binary patch/.test(line)
+    );
+    return `${chalk.bold(hunk.file)}\n${chalk.grey(summary.join('\n'))}`;
+  }
+
+  const lines = hunk.lines.map((line) => {
+    if (line.startsWith('+')) return chalk.green(decode(line));
+    if (line.startsWith('-')) return chalk.red(decode(line));
+    return decode(line);
+  });
+
+  return `${chalk.bold(hunk.file)} ${chalk.cyan(
+    `@@ -${hunk.oldStart},${hunk.oldCount} +${hunk.newStart},${hunk.newCount} @@`
+  )}${decode(hunk.section)}\n${lines.join('\n')}`;
+};
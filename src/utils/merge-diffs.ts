@@ -1,14 +1,33 @@
+import type { TiktokenEncoding } from '@dqbd/tiktoken';
+
 import { tokenCount } from './token-count';
 
-export function mergeDiffs(array: string[], maxStringLength: number): string[] {
+/**
+ * Concatenates consecutive items as long as they fit into `maxStringLength` tokens. Each item is
+ * counted once and the chunk's count is the sum of its items', which is close to the count of the
+ * concatenation and keeps this linear in the size of the diff.
+ */
+export function mergeDiffs(
+  array: string[],
+  maxStringLength: number,
+  tokenizer?: TiktokenEncoding
+): string[] {
+  if (array.length === 0) return [];
+
   const mergedArray: string[] = [];
   let currentItem: string = array[0];
+  let currentTokens = tokenCount(currentItem, tokenizer);
+
   for (const item of array.slice(1)) {
-    if (tokenCount(currentItem + item) <= maxStringLength) {
+    const itemTokens = tokenCount(item, tokenizer);
+
+    if (currentTokens + itemTokens <= maxStringLength) {
       currentItem += item;
+      currentTokens += itemTokens;
     } else {
       mergedArray.push(currentItem);
       currentItem = item;
+      currentTokens = itemTokens;
     }
   }
 
@@ -16,3 +35,60 @@ export function mergeDiffs(array: string[], maxStringLength: number): string[] {
 
   return mergedArray;
 }
+
+/**
+ * How many characters from the start of `line` fit into `maxTokens`. Most characters are less than
+ * a token, but e.g. a CJK or an emoji character can be several, so the slice is halved until it
+ * fits. A single character is cut off even when it doesn't fit, to make progress.
+ */
+const getFittingLength = (line: string, maxTokens: number, tokenizer?: TiktokenEncoding) => {
+  let length = Math.min(line.length, maxTokens);
+
+  while (length > 1 && tokenCount(line.slice(0, length), tokenizer) > maxTokens) {
+    length = Math.floor(length / 2);
+  }
+
+  // don't cut a surrogate pair, e.g. an emoji, in two, the last character would start one
+  if (length > 1 && (line.codePointAt(length - 1) ?? 0) > 0xff_ff) length--;
+
+  return length;
+};
+
+/**
+ * Splits a diff into chunks of whole lines of at most `maxChangeLength` tokens, lines longer than
+ * that are cut into pieces. Like `mergeDiffs`, each line is counted once.
+ */
+export function splitDiff(
+  diff: string,
+  maxChangeLength: number,
+  tokenizer?: TiktokenEncoding
+): string[] {
+  const splitDiffs: string[] = [];
+  let currentLines: string[] = [];
+  let currentTokens = 0;
+
+  for (let line of diff.split('\n')) {
+    let lineTokens = tokenCount(line, tokenizer);
+
+    while (lineTokens > maxChangeLength) {
+      const pieceLength = getFittingLength(line, maxChangeLength, tokenizer);
+      splitDiffs.push(line.slice(0, pieceLength));
+      line = line.slice(pieceLength);
+      lineTokens = tokenCount(line, tokenizer);
+    }
+
+    // the newline joining the line to the chunk is one more token
+    if (currentLines.length > 0 && currentTokens + 1 + lineTokens > maxChangeLength) {
+      splitDiffs.push(currentLines.join('\n'));
+      currentLines = [];
+      currentTokens = 0;
+    }
+
+    currentTokens += currentLines.length > 0 ? 1 + lineTokens : lineTokens;
+    currentLines.push(line);
+  }
+
+  if (currentLines.length > 0) splitDiffs.push(currentLines.join('\n'));
+
+  return splitDiffs;
+}
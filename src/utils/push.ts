@@ -0,0 +1,165 @@
+import chalk from 'chalk';
+import { execa, type ExecaError } from 'execa';
+
+import { confirm, isCancel, outro, select, spinner } from '@clack/prompts';
+
+import { type ConfigType, GITPUSH_MODES } from '../commands/config';
+
+// the remote picked when a repo has several, so it's only asked for once
+export const PUSH_REMOTE_CONFIG = 'opencommit.pushRemote';
+
+export interface PushOptions {
+  // HEAD was amended, so the commit it replaced may already be on the remote
+  amended?: boolean;
+  // push without asking, unless OCO_GITPUSH is 'never'
+  skipConfirmation?: boolean;
+}
+
+const getGitConfig = async (key: string): Promise<string | undefined> => {
+  const { stdout } = await execa('git', ['config', '--get', key], { reject: false });
+  return stdout || undefined;
+};
+
+const getGitRemotes = async () => {
+  const { stdout } = await execa('git', ['remote']);
+  return stdout.split('\n').filter((remote) => Boolean(remote.trim()));
+};
+
+// the upstream has commits HEAD doesn't, a plain push would be rejected
+const isDivergedFromUpstream = async () => {
+  const { exitCode, stdout } = await execa('git', ['rev-list', '--count', 'HEAD..@{upstream}'], {
+    reject: false
+  });
+
+  return exitCode === 0 && Number(stdout) > 0;
+};
+
+const getPushFailureReason = (stderr: string) => {
+  if (stderr.includes('stale info')) {
+    return 'The remote branch changed since you last fetched it, fetch and check it before forcing';
+  }
+
+  if (/non-fast-forward|fetch first|\[rejected]/.test(stderr)) {
+    return "The remote has commits you don't have, run `git pull --rebase` and push again";
+  }
+
+  return stderr;
+};
+
+/**
+ * Picks the remote to push to: the one remembered in `opencommit.pushRemote`, the branch's
+ * upstream remote, or the only remote. With several remotes and nothing remembered the user is
+ * asked, and their pick is remembered, or `origin` is used when not asking.
+ */
+const resolveRemote = async (
+  remotes: string[],
+  upstreamRemote: string | undefined,
+  isAsking: boolean
+): Promise<string | symbol | undefined> => {
+  const rememberedRemote = await getGitConfig(PUSH_REMOTE_CONFIG);
+  const knownRemote = [rememberedRemote, upstreamRemote].find(
+    (remote) => remote && remotes.includes(remote)
+  );
+
+  if (knownRemote) return knownRemote;
+  if (remotes.length === 1) return remotes[0];
+  if (!isAsking) return remotes.includes('origin') ? 'origin' : undefined;
+
+  const selectedRemote = await select({
+    message: 'Choose a remote to push to',
+    options: remotes.map((remote) => ({ label: remote, value: remote }))
+  });
+
+  if (!isCancel(selectedRemote)) {
+    await execa('git', ['config', PUSH_REMOTE_CONFIG, selectedRemote as string]);
+  }
+
+  return selectedRemote as string | symbol;
+};
+
+/**
+ * Pushes the current branch after a commit as `OCO_GITPUSH` says, setting the upstream of new
+ * branches. After an amend of a pushed commit it offers `--force-with-lease`, but never forces
+ * without asking. Returns false when the push failed.
+ */
+export async function pushCommits(
+  config: ConfigType | null,
+  { amended = false, skipConfirmation = false }: PushOptions = {}
+): Promise<boolean> {
+  const mode = config?.OCO_GITPUSH ?? GITPUSH_MODES.ask;
+  if (mode === GITPUSH_MODES.never) return true;
+
+  const remotes = await getGitRemotes();
+  if (remotes.length === 0) return true;
+
+  const { stdout: branch } = await execa('git', ['symbolic-ref', '--quiet', '--short', 'HEAD'], {
+    reject: false
+  });
+
+  if (!branch) {
+    outro('HEAD is detached, there is no branch to push');
+    return true;
+  }
+
+  const isAsking = mode === GITPUSH_MODES.ask && !skipConfirmation;
+  const upstreamRemote = await getGitConfig(`branch.${branch}.remote`);
+  const remote = await resolveRemote(remotes, upstreamRemote, isAsking);
+
+  if (isCancel(remote)) {
+    outro('`git push` aborted');
+    return true;
+  }
+
+  if (!remote) {
+    outro(
+      `Several remotes and none is 'origin', run \`git push <remote>\` yourself or pick one with \`git config ${PUSH_REMOTE_CONFIG} <remote>\``
+    );
+    return true;
+  }
+
+  const isForceNeeded = amended && (await isDivergedFromUpstream());
+
+  if (isForceNeeded && !isAsking) {
+    outro(
+      `HEAD was amended after it was pushed, run \`git push --force-with-lease ${remote}\` to replace it`
+    );
+    return true;
+  }
+
+  const pushArguments = [
+    'push',
+    ...(isForceNeeded ? ['--force-with-lease'] : []),
+    ...(upstreamRemote ? [remote] : ['--set-upstream', remote, branch])
+  ];
+
+  if (isAsking) {
+    const isPushConfirmedByUser = await confirm({
+      message: isForceNeeded
+        ? `HEAD was amended after it was pushed, do you want to run \`git ${pushArguments.join(' ')}\`?`
+        : `Do you want to run \`git ${pushArguments.join(' ')}\`?`
+    });
+
+    if (!isPushConfirmedByUser || isCancel(isPushConfirmedByUser)) {
+      outro('`git push` aborted');
+      return true;
+    }
+  }
+
+  const pushSpinner = spinner();
+  pushSpinner.start(`Running 'git ${pushArguments.join(' ')}'`);
+
+  try {
+    const { stdout } = await execa('git', pushArguments);
+
+    pushSpinner.stop(`${chalk.green('✔')} Successfully pushed all commits to ${remote}`);
+
+    if (stdout) outro(stdout);
+    return true;
+  } catch (error) {
+    pushSpinner.stop(`${chalk.red('✖')} Failed to push to ${remote}`);
+
+    const { stderr } = error as ExecaError;
+    outro(stderr ? getPushFailureReason(stderr) : String(error));
+    return false;
+  }
+}
@@ -0,0 +1,109 @@
+import axios from 'axios';
+import { APIError } from 'openai';
+
+import { randomIntFromInterval } from './random-int-from-interval';
+import { sleep } from './sleep';
+
+export const DEFAULT_CONCURRENCY = 3;
+export const DEFAULT_MAX_RETRIES = 5;
+
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60_000;
+
+interface SchedulerOptions {
+  concurrency?: number;
+  retries?: number;
+}
+
+const getErrorResponse = (error: unknown) => {
+  if (error instanceof APIError) {
+    return { headers: error.headers ?? {}, status: error.status };
+  }
+
+  if (axios.isAxiosError(error)) {
+    return { headers: error.response?.headers ?? {}, status: error.response?.status };
+  }
+};
+
+/**
+ * `Retry-After` is either a number of seconds or an HTTP date, OpenAI also sends milliseconds in
+ * `retry-after-ms`.
+ */
+const parseRetryAfter = (headers: Record<string, unknown>): number | undefined => {
+  const retryAfterMs = Number(headers['retry-after-ms']);
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = headers['retry-after'];
+  if (typeof retryAfter !== 'string') return undefined;
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * How long to wait before retrying a failed request, or `undefined` if it shouldn't be retried.
+ * Only rate limits (429) and server errors (5xx) are worth another try.
+ */
+export const getRetryDelay = (error: unknown, attempt: number): number | undefined => {
+  const response = getErrorResponse(error);
+
+  if (!response?.status || (response.status !== 429 && response.status < 500)) return undefined;
+
+  const retryAfter = parseRetryAfter(response.headers as Record<string, unknown>);
+  if (retryAfter !== undefined) return Math.min(retryAfter, MAX_RETRY_DELAY);
+
+  // exponential backoff with jitter, so parallel requests don't retry in lockstep
+  const backoff = Math.min(BASE_RETRY_DELAY * 2 ** attempt, MAX_RETRY_DELAY);
+  return randomIntFromInterval(backoff / 2, backoff);
+};
+
+/**
+ * Creates a scheduler that runs at most `concurrency` tasks at a time and retries the ones
+ * failing with a rate limit or a server error. A task waiting for its retry frees its slot.
+ */
+export const createScheduler = ({
+  concurrency = DEFAULT_CONCURRENCY,
+  retries = DEFAULT_MAX_RETRIES
+}: SchedulerOptions = {}) => {
+  let running = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = async () => {
+    if (running < concurrency) {
+      running++;
+      return;
+    }
+
+    // the slot is handed over by `release`, so `running` stays the same
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+
+    if (next) next();
+    else running--;
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquire();
+
+      let retryDelay: number | undefined;
+      try {
+        return await task();
+      } catch (error) {
+        retryDelay = getRetryDelay(error, attempt);
+
+        if (retryDelay === undefined || attempt >= retries) throw error;
+      } finally {
+        release();
+      }
+
+      await sleep(retryDelay);
+    }
+  };
+};
@@ -0,0 +1,247 @@
+import chalk from 'chalk';
+import { readFileSync } from 'node:fs';
+
+import { outro } from '@clack/prompts';
+
+import { type ConfigType, SECRETS_POLICIES } from '../commands/config';
+import { SecretsFoundError } from '../errors';
+
+export interface SecretFinding {
+  file: string;
+  // line number in the new version of the file, or in the old one for removed lines
+  line: number;
+  // what it looks like, e.g. `aws-access-key`, allowlist entries can name it
+  rule: string;
+  secret: string;
+}
+
+const SECRET_RULES: { pattern: RegExp; rule: string }[] = [
+  { pattern: /\bAKIA[\dA-Z]{16}\b/, rule: 'aws-access-key' },
+  { pattern: /\bsk-ant-[\w-]{20,}/, rule: 'anthropic-api-key' },
+  { pattern: /\bsk-(?:proj-)?[\dA-Za-z]{20,}/, rule: 'openai-api-key' },
+  { pattern: /\b(?:gh[oprsu]_[\dA-Za-z]{36,}|github_pat_\w{22,})/, rule: 'github-token' },
+  { pattern: /\bxox[abprs]-[\dA-Za-z-]{10,}/, rule: 'slack-token' },
+  { pattern: /\b[rs]k_live_[\dA-Za-z]{20,}/, rule: 'stripe-key' },
+  { pattern: /\bAIza[\w-]{35}/, rule: 'google-api-key' },
+  { pattern: /\b(?:eyJ[\w-]{10,}\.){2}[\w-]{10,}/, rule: 'jwt' },
+  // `password = "hunter2!"` in code, only quoted values, `password = getPassword()` is fine. The
+  // name has to end with the keyword, `tokenizer: 'cl100k_base'` isn't a secret
+  {
+    pattern: /(?:api[_-]?key|secret|token|passw(?:or)?d)["']?\s*[:=]\s*["']([^\s"']{8,})["']/i,
+    rule: 'secret-assignment'
+  },
+  // `API_TOKEN=...` in `.env` files, references like `$OTHER_TOKEN` are fine
+  {
+    pattern: /^\s*(?:export\s+)?\w*(?:api_key|secret|token|password)\s*=\s*["']?([^\s"$']{8,})/i,
+    rule: 'secret-assignment'
+  }
+];
+
+const PRIVATE_KEY_BEGIN = /-{5}BEGIN [ A-Z]*PRIVATE KEY( BLOCK)?-{5}/;
+const PRIVATE_KEY_END = /-{5}END [ A-Z]*PRIVATE KEY( BLOCK)?-{5}/;
+
+// long tokens mixing digits and letters of both cases, hex strings like SHAs never get this high
+const HIGH_ENTROPY_CANDIDATE = /[\w+/-]{20,}={0,2}/g;
+const HIGH_ENTROPY_THRESHOLD = 4;
+
+const getShannonEntropy = (value: string) => {
+  const counts = new Map<string, number>();
+  for (const character of value) counts.set(character, (counts.get(character) ?? 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+
+  return entropy;
+};
+
+const isHighEntropy = (value: string) =>
+  /\d/.test(value) &&
+  /[a-z]/.test(value) &&
+  /[A-Z]/.test(value) &&
+  getShannonEntropy(value) >= HIGH_ENTROPY_THRESHOLD;
+
+const findSecretsInLine = (content: string): { rule: string; secret: string }[] => {
+  const secrets: { rule: string; secret: string }[] = [];
+
+  const candidates = [
+    ...SECRET_RULES.map(({ pattern, rule }) => {
+      const match = pattern.exec(content);
+      return { rule, secret: match?.[1] ?? match?.[0] };
+    }),
+    ...(content.match(HIGH_ENTROPY_CANDIDATE) ?? [])
+      .filter((token) => isHighEntropy(token))
+      .map((token) => ({ rule: 'high-entropy', secret: token }))
+  ];
+
+  // e.g. `OPENAI_API_KEY=sk-...` matches several rules, the most specific one is kept
+  for (const { rule, secret } of candidates) {
+    // names rather than values, e.g. `OCO_OPENAI_API_KEY = 'OCO_OPENAI_API_KEY'`
+    if (!secret || /^(?:[A-Z_]+|[._a-z-]+)$/.test(secret)) continue;
+
+    if (!secrets.some((found) => found.secret.includes(secret) || secret.includes(found.secret))) {
+      secrets.push({ rule, secret });
+    }
+  }
+
+  return secrets;
+};
+
+/**
+ * Entries allowing findings, from `OCO_SECRETS_ALLOWLIST` and the `secret:` lines of
+ * `.opencommitignore`. An entry allows the findings of the rule it names, e.g. `high-entropy`, and
+ * the secrets containing it, e.g. a dummy key used in tests.
+ */
+export const getSecretsAllowlist = (config: ConfigType | null): string[] => {
+  let ignoreLines: string[] = [];
+
+  try {
+    ignoreLines = readFileSync('.opencommitignore').toString().split('\n');
+  } catch {
+    /* empty */
+  }
+
+  return [
+    ...String(config?.OCO_SECRETS_ALLOWLIST ?? '').split(','),
+    ...ignoreLines
+      .filter((line) => line.startsWith('secret:'))
+      .map((line) => line.slice('secret:'.length))
+  ]
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+};
+
+const isAllowed = ({ rule, secret }: { rule: string; secret: string }, allowlist: string[]) =>
+  allowlist.some((entry) => entry === rule || secret.includes(entry));
+
+/**
+ * Walks the diff line by line, headers excluded, and calls `onLine` with each line's findings.
+ * Whatever `onLine` returns replaces the line, so the same walk both scans and redacts.
+ */
+const walkDiff = (
+  diff: string,
+  allowlist: string[],
+  onLine: (line: string, findings: SecretFinding[]) => string
+): string => {
+  let file = '';
+  let oldLine = 0;
+  let newLine = 0;
+  let isInPrivateKey = false;
+
+  return diff
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('diff --git ')) {
+        file = line.split(' b/').at(-1) ?? '';
+        isInPrivateKey = false;
+        return line;
+      }
+
+      const hunkHeader = /^@@ -(\d+)(?:,\d+)? \+(\d+)/.exec(line);
+      if (hunkHeader) {
+        oldLine = Number(hunkHeader[1]);
+        newLine = Number(hunkHeader[2]);
+        return line;
+      }
+
+      const prefix = line[0];
+      if (!['+', '-', ' '].includes(prefix) || /^(\+{3}|-{3}) /.test(line)) return line;
+
+      const lineNumber = prefix === '-' ? oldLine : newLine;
+      if (prefix !== '+') oldLine += 1;
+      if (prefix !== '-') newLine += 1;
+
+      const content = line.slice(1);
+      const isPrivateKeyLine = isInPrivateKey || PRIVATE_KEY_BEGIN.test(content);
+      isInPrivateKey = isPrivateKeyLine && !PRIVATE_KEY_END.test(content);
+
+      const secrets = isPrivateKeyLine
+        ? [{ rule: 'private-key', secret: content }]
+        : findSecretsInLine(content);
+
+      const findings = secrets
+        .filter((secret) => !isAllowed(secret, allowlist))
+        .map((secret) => ({ ...secret, file, line: lineNumber }));
+
+      return findings.length > 0 ? onLine(line, findings) : line;
+    })
+    .join('\n');
+};
+
+export const scanForSecrets = (diff: string, allowlist: string[] = []): SecretFinding[] => {
+  const findings: SecretFinding[] = [];
+
+  walkDiff(diff, allowlist, (line, lineFindings) => {
+    findings.push(...lineFindings);
+    return line;
+  });
+
+  // the lines of a private key are a single finding
+  return findings.filter(
+    (finding, index) =>
+      finding.rule !== 'private-key' ||
+      findings[index - 1]?.rule !== 'private-key' ||
+      findings[index - 1]?.file !== finding.file
+  );
+};
+
+// replaces each secret with a marker naming its rule, so the model still sees something changed
+export const redactSecrets = (diff: string, allowlist: string[] = []): string =>
+  walkDiff(diff, allowlist, (line, findings) => {
+    let redactedLine = line;
+    for (const { rule, secret } of findings) {
+      redactedLine = redactedLine.replace(secret, `[REDACTED ${rule}]`);
+    }
+
+    return redactedLine;
+  });
+
+// the first characters only, enough to find the secret again without printing it
+const maskSecret = (secret: string) => `${secret.trim().slice(0, 4)}${'*'.repeat(8)}`;
+
+export const formatSecretFindings = (findings: SecretFinding[]) =>
+  findings
+    .map(
+      ({ file, line, rule, secret }) =>
+        `  ${file}:${line} ${chalk.yellow(rule)} ${chalk.grey(maskSecret(secret))}`
+    )
+    .join('\n');
+
+/**
+ * Applies `OCO_SECRETS` to a diff before it's sent to the provider: returns it with the secrets
+ * redacted, the default, or throws a `SecretsFoundError` when the policy is `block`.
+ */
+export const applySecretsPolicy = (
+  diff: string,
+  config: ConfigType | null
+): { diff: string; findings: SecretFinding[] } => {
+  const policy = config?.OCO_SECRETS ?? SECRETS_POLICIES.redact;
+  if (policy === SECRETS_POLICIES.off) return { diff, findings: [] };
+
+  const allowlist = getSecretsAllowlist(config);
+  const findings = scanForSecrets(diff, allowlist);
+
+  if (findings.length === 0) return { diff, findings };
+  if (policy === SECRETS_POLICIES.block) throw new SecretsFoundError(findings);
+
+  return { diff: redactSecrets(diff, allowlist), findings };
+};
+
+/**
+ * `applySecretsPolicy` for the CLI, the hook and the Action, which also lists what was redacted.
+ */
+export const protectDiff = (diff: string, config: ConfigType | null): string => {
+  const { diff: protectedDiff, findings } = applySecretsPolicy(diff, config);
+
+  if (findings.length > 0) {
+    outro(
+      `${chalk.yellow('⚠')} Redacted ${findings.length} possible secrets before sending the diff:
+${formatSecretFindings(findings)}
+Unstage them, or allow false positives in OCO_SECRETS_ALLOWLIST or with \`secret:<value>\` lines in .opencommitignore`
+    );
+  }
+
+  return protectedDiff;
+};
@@ -0,0 +1,267 @@
+import { execa } from 'execa';
+import type ts from 'typescript';
+
+type TypeScript = typeof ts;
+
+interface ExportedSymbol {
+  // e.g. `function getDiff(files: string[]): Promise<string>`, what the summary shows
+  signature: string;
+  // the whole declaration with collapsed whitespace, to tell whether it was modified
+  text: string;
+}
+
+const SOURCE_FILE = /\.[cm]?[jt]sx?$/;
+
+// `app.get('/users', handler)`, `router.post(...)` and the like of Express, Koa, Fastify or Hono
+const ROUTE_METHODS = new Set(['all', 'delete', 'get', 'head', 'options', 'patch', 'post', 'put']);
+
+// a file with more changed symbols than this is mostly new or generated, the rest is counted
+const MAX_SYMBOL_LINES = 20;
+
+// loaded when needed only, it's large and only used when TS or JS files are in the diff
+const loadTypeScript = async (): Promise<TypeScript> => {
+  const module = await import('typescript');
+  return module.default;
+};
+
+const collapse = (text: string) => text.replaceAll(/\s+/g, ' ').trim();
+
+const isExported = (ts: TypeScript, node: ts.Node) =>
+  ts.canHaveModifiers(node) &&
+  (ts.getModifiers(node) ?? []).some(({ kind }) => kind === ts.SyntaxKind.ExportKeyword);
+
+const getFunctionSignature = (
+  name: string,
+  node: ts.SignatureDeclaration,
+  sourceFile: ts.SourceFile
+) => {
+  // without default values, they aren't part of the API and the secrets scan skips these lines
+  const parameters = node.parameters.map(
+    ({ dotDotDotToken, name, questionToken, type }) =>
+      `${dotDotDotToken ? '...' : ''}${collapse(name.getText(sourceFile))}${questionToken ? '?' : ''}${
+        type ? `: ${collapse(type.getText(sourceFile))}` : ''
+      }`
+  );
+  const returnType = node.type ? `: ${collapse(node.type.getText(sourceFile))}` : '';
+
+  return `function ${name}(${parameters.join(', ')})${returnType}`;
+};
+
+/**
+ * The exported functions, classes, interfaces, types, enums and variables of a file, and the routes
+ * it registers, keyed by kind and name.
+ */
+const getSymbols = (ts: TypeScript, path: string, content: string) => {
+  const symbols = new Map<string, ExportedSymbol>();
+  const sourceFile = ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true);
+
+  const addSymbol = (key: string, signature: string, node: ts.Node) => {
+    // overloads are declared several times, each of them counts
+    const text = `${symbols.get(key)?.text ?? ''}${collapse(node.getText(sourceFile))}`;
+    symbols.set(key, { signature, text });
+  };
+
+  const addDeclaration = (node: ts.Statement) => {
+    const name =
+      ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)
+        ? (node.name?.text ?? 'default')
+        : '';
+
+    if (ts.isFunctionDeclaration(node)) {
+      addSymbol(`function ${name}`, getFunctionSignature(name, node, sourceFile), node);
+    } else if (ts.isClassDeclaration(node)) {
+      const heritage = (node.heritageClauses ?? []).map((clause) => clause.getText(sourceFile));
+      addSymbol(`class ${name}`, collapse(`class ${name} ${heritage.join(' ')}`), node);
+    } else if (ts.isInterfaceDeclaration(node)) {
+      addSymbol(`interface ${node.name.text}`, `interface ${node.name.text}`, node);
+    } else if (ts.isTypeAliasDeclaration(node)) {
+      addSymbol(`type ${node.name.text}`, `type ${node.name.text}`, node);
+    } else if (ts.isEnumDeclaration(node)) {
+      addSymbol(`enum ${node.name.text}`, `enum ${node.name.text}`, node);
+    } else if (ts.isVariableStatement(node)) {
+      const keyword = node.declarationList.flags & ts.NodeFlags.Const ? 'const' : 'let';
+
+      for (const declaration of node.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name)) continue;
+
+        const { initializer, name } = declaration;
+        const isFunction =
+          initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+
+        addSymbol(
+          `${isFunction ? 'function' : keyword} ${name.text}`,
+          isFunction
+            ? getFunctionSignature(name.text, initializer, sourceFile)
+            : `${keyword} ${name.text}`,
+          declaration
+        );
+      }
+    } else if (ts.isExportAssignment(node)) {
+      addSymbol('export default', 'export default', node);
+    }
+  };
+
+  const addRoutes = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      ROUTE_METHODS.has(node.expression.name.text) &&
+      node.arguments.length > 1
+    ) {
+      const [path] = node.arguments;
+
+      if (ts.isStringLiteralLike(path) && path.text.startsWith('/')) {
+        const route = `route ${node.expression.name.text.toUpperCase()} ${path.text}`;
+        addSymbol(route, route, node);
+      }
+    }
+
+    ts.forEachChild(node, addRoutes);
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (isExported(ts, statement) || ts.isExportAssignment(statement)) addDeclaration(statement);
+  }
+  addRoutes(sourceFile);
+
+  return symbols;
+};
+
+/**
+ * One line for each exported symbol or route that was added, removed or modified between the two
+ * versions of a file, e.g. `symbol modified: function getDiff(files: string[])`.
+ */
+const getSymbolChanges = (ts: TypeScript, path: string, oldContent: string, newContent: string) => {
+  const oldSymbols = getSymbols(ts, path, oldContent);
+  const newSymbols = getSymbols(ts, path, newContent);
+  const lines: string[] = [];
+
+  for (const [key, { signature, text }] of newSymbols) {
+    const oldSymbol = oldSymbols.get(key);
+
+    if (!oldSymbol) lines.push(`symbol added: ${signature}`);
+    else if (oldSymbol.text !== text) lines.push(`symbol modified: ${signature}`);
+  }
+
+  for (const [key, { signature }] of oldSymbols) {
+    if (!newSymbols.has(key)) lines.push(`symbol removed: ${signature}`);
+  }
+
+  if (lines.length <= MAX_SYMBOL_LINES) return lines;
+
+  return [
+    ...lines.slice(0, MAX_SYMBOL_LINES),
+    `symbols: ${lines.length - MAX_SYMBOL_LINES} more changed`
+  ];
+};
+
+// what `git cat-file --batch` prints before an object's content, other objects are `<name> missing`
+const BATCH_HEADER = /^[\da-f]+ (\w+) (\d+)$/;
+
+/**
+ * Reads files named like `HEAD:src/api.ts`, or `:src/api.ts` for the index, with a single
+ * `git cat-file --batch`, however many there are. Files that don't exist there are empty, e.g. the
+ * old version of an added file.
+ */
+const readFiles = async (names: string[]): Promise<string[]> => {
+  if (names.length === 0) return [];
+
+  const { stdout } = await execa('git', ['cat-file', '--batch'], {
+    encoding: 'buffer',
+    input: `${names.join('\n')}\n`,
+    maxBuffer: Number.POSITIVE_INFINITY
+  });
+
+  const contents: string[] = [];
+  let offset = 0;
+
+  while (contents.length < names.length) {
+    const headerEnd = stdout.indexOf('\n', offset);
+    const match = BATCH_HEADER.exec(stdout.subarray(offset, headerEnd).toString());
+    offset = headerEnd + 1;
+
+    if (!match) {
+      contents.push('');
+      continue;
+    }
+
+    // the content is followed by a newline
+    const size = Number(match[2]);
+    contents.push(match[1] === 'blob' ? stdout.subarray(offset, offset + size).toString() : '');
+    offset += size + 1;
+  }
+
+  return contents;
+};
+
+// the path after `a/` or `b/` in a `---` or `+++` line, `undefined` for `/dev/null`
+const getHeaderPath = (lines: string[], marker: string) => {
+  const line = lines.find((headerLine) => headerLine.startsWith(`${marker} `));
+  const path = line?.slice(marker.length + 1).replace(/\t$/, '');
+
+  return path && path !== '/dev/null' ? path.replace(/^[a-z]\//, '') : undefined;
+};
+
+/**
+ * Adds the exported symbols and routes that changed to the header of each TypeScript and
+ * JavaScript file's diff, right before its first hunk. The header is repeated in every chunk of a
+ * file's diff that's too large for one request, so each of them knows what the file changes.
+ *
+ * `from` and `to` are the revisions the diff compares, `to` is the index when it's left out. Files
+ * that can't be parsed are left as they are.
+ */
+export async function addSymbolSummaries(
+  diff: string,
+  { from = 'HEAD', to = '' }: { from?: string; to?: string } = {}
+): Promise<string> {
+  const fileDiffs = diff.split(/^(?=diff --git )/m);
+
+  const sourceFileDiffs = fileDiffs.flatMap((fileDiff, index) => {
+    const lines = fileDiff.split('\n');
+    const firstHunkIndex = lines.findIndex((line) => line.startsWith('@@ '));
+    if (firstHunkIndex === -1) return [];
+
+    const header = lines.slice(0, firstHunkIndex);
+    const oldPath = getHeaderPath(header, '---');
+    const newPath = getHeaderPath(header, '+++');
+
+    // quoted paths have special characters escaped, they don't name the file as it is
+    const path = newPath ?? oldPath;
+    if (!path || !SOURCE_FILE.test(path) || path.startsWith('"')) return [];
+
+    return [{ firstHunkIndex, index, lines, newPath, oldPath, path }];
+  });
+
+  if (sourceFileDiffs.length === 0) return diff;
+
+  const ts = await loadTypeScript();
+
+  // a path that's left out, e.g. the old one of an added file, is read as an empty file
+  const contents = await readFiles(
+    sourceFileDiffs.flatMap(({ newPath, oldPath }) => [
+      oldPath ? `${from}:${oldPath}` : '',
+      newPath ? `${to}:${newPath}` : ''
+    ])
+  );
+
+  for (const [position, { firstHunkIndex, index, lines, path }] of sourceFileDiffs.entries()) {
+    try {
+      const symbolLines = getSymbolChanges(
+        ts,
+        path,
+        contents[position * 2],
+        contents[position * 2 + 1]
+      );
+
+      fileDiffs[index] = [
+        ...lines.slice(0, firstHunkIndex),
+        ...symbolLines,
+        ...lines.slice(firstHunkIndex)
+      ].join('\n');
+    } catch {
+      // the diff of the file is sent without a summary
+    }
+  }
+
+  return fileDiffs.join('');
+}
@@ -1,8 +1,41 @@
-import { encoding_for_model } from '@dqbd/tiktoken';
+import { get_encoding, type Tiktoken, type TiktokenEncoding } from '@dqbd/tiktoken';
+import OpenAI from 'openai';
 
-export function tokenCount(content: string): number {
-  const encoding = encoding_for_model('gpt-4-turbo-preview');
-  const tokens = encoding.encode(content);
-  encoding.free();
-  return tokens.length;
+// building an encoder parses its whole vocabulary, so each one is built once and kept for the process
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+const getEncoder = (tokenizer: TiktokenEncoding) => {
+  let encoder = encoders.get(tokenizer);
+
+  if (!encoder) {
+    encoder = get_encoding(tokenizer);
+    encoders.set(tokenizer, encoder);
+  }
+
+  return encoder;
+};
+
+export function tokenCount(content: string, tokenizer: TiktokenEncoding = 'cl100k_base'): number {
+  // `encode` would check for special tokens like `<|endoftext|>` and throw on them, diffs are plain text
+  return getEncoder(tokenizer).encode_ordinary(content).length;
+}
+
+export function getTokenCount(
+  messages: OpenAI.Chat.ChatCompletionMessageParam[],
+  tokenizer?: TiktokenEncoding
+) {
+  let sum = 0;
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      sum += tokenCount(message.content, tokenizer) + 4;
+    } else if (Array.isArray(message.content)) {
+      for (const content of message.content) {
+        if (content.type === 'text') {
+          sum += tokenCount(content.text, tokenizer) + 4;
+        }
+      }
+    }
+  }
+
+  return sum;
 }
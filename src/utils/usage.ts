@@ -0,0 +1,146 @@
+import { execaSync } from 'execa';
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { basename, join as pathJoin } from 'node:path';
+
+import { getModelInfo } from '../engine/models';
+
+export const USAGE_LEDGER_PATH = pathJoin(homedir(), '.opencommit-usage.jsonl');
+
+export enum USAGE_COMMAND {
+  amend = 'amend',
+  commit = 'commit',
+  commitlint = 'commitlint',
+  githubAction = 'github-action',
+  hook = 'hook',
+  print = 'print',
+  reword = 'reword',
+  split = 'split'
+}
+
+export interface TokenUsage {
+  completionTokens: number;
+  promptTokens: number;
+}
+
+export interface UsageEntry extends TokenUsage {
+  command: USAGE_COMMAND;
+  // ISO timestamp of the request
+  date: string;
+  model: string;
+  provider: string;
+  repo: string;
+}
+
+export interface UsageTotal extends TokenUsage {
+  // undefined when none of the requests used a model with known pricing
+  cost: number | undefined;
+  requests: number;
+}
+
+let usageCommand = USAGE_COMMAND.commit;
+
+/**
+ * Tags the requests made from now on with the command that triggered them.
+ */
+export const setUsageCommand = (command: USAGE_COMMAND) => {
+  usageCommand = command;
+};
+
+const usageListeners = new Set<(usage: TokenUsage) => void>();
+
+/**
+ * Calls `listener` with the tokens of every request recorded from now on, until the returned
+ * function is called.
+ */
+export const watchUsage = (listener: (usage: TokenUsage) => void) => {
+  usageListeners.add(listener);
+
+  return () => {
+    usageListeners.delete(listener);
+  };
+};
+
+let repo: string | undefined;
+
+const getRepo = () => {
+  try {
+    repo ??= basename(execaSync('git', ['rev-parse', '--show-toplevel']).stdout);
+  } catch {
+    repo ??= basename(process.cwd());
+  }
+
+  return repo;
+};
+
+/**
+ * Appends a request to the ledger. It's written synchronously, as the CLI exits right after the
+ * last request. Failing to write it must never fail the commit, so errors are swallowed.
+ */
+export const recordUsage = (usage: TokenUsage & Pick<UsageEntry, 'model' | 'provider'>): void => {
+  for (const listener of usageListeners) listener(usage);
+
+  try {
+    const entry: UsageEntry = {
+      command: usageCommand,
+      date: new Date().toISOString(),
+      repo: getRepo(),
+      ...usage
+    };
+
+    appendFileSync(USAGE_LEDGER_PATH, `${JSON.stringify(entry)}\n`, 'utf8');
+  } catch {
+    /* empty */
+  }
+};
+
+export const readUsage = (): UsageEntry[] => {
+  if (!existsSync(USAGE_LEDGER_PATH)) return [];
+
+  return readFileSync(USAGE_LEDGER_PATH, 'utf8')
+    .split('\n')
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as UsageEntry];
+      } catch {
+        // skip lines cut short by a process killed mid-write
+        return [];
+      }
+    });
+};
+
+/**
+ * Sums the ledger per group, e.g. per day, repo or model. Costs are computed with the current
+ * pricing, so prices declared in `OCO_CUSTOM_MODELS` also apply to past requests.
+ */
+export const summarizeUsage = (
+  entries: UsageEntry[],
+  getGroup: (entry: UsageEntry) => string,
+  customModels?: unknown
+): Record<string, UsageTotal> => {
+  const totals: Record<string, UsageTotal> = {};
+
+  for (const entry of entries) {
+    const group = getGroup(entry);
+    const total = (totals[group] ??= {
+      completionTokens: 0,
+      cost: undefined,
+      promptTokens: 0,
+      requests: 0
+    });
+
+    total.requests += 1;
+    total.promptTokens += entry.promptTokens;
+    total.completionTokens += entry.completionTokens;
+
+    const { pricing } = getModelInfo(entry.model, customModels);
+    if (pricing) {
+      total.cost =
+        (total.cost ?? 0) +
+        (entry.promptTokens * pricing.input + entry.completionTokens * pricing.output) / 1e6;
+    }
+  }
+
+  return totals;
+};
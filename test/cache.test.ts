@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join as pathJoin } from 'node:path';
+import { after, before, test } from 'node:test';
+
+import { AI_PROVIDER, type ConfigType } from '../src/commands/config';
+import { CASSETTE_MODE, DEFAULT_CASSETTE_STUB_RESPONSE } from '../src/engine/cassette';
+
+// the cache lives in the home directory, which is read when the cache module is loaded
+const home = mkdtempSync(pathJoin(tmpdir(), 'opencommit-cache-'));
+process.env['HOME'] = home;
+
+const { generateCommitMessageByDiff } =
+  await import('../src/generate-commit-message-from-git-diff');
+
+const DIFF = `diff --git a/src/api.ts b/src/api.ts
+--- a/src/api.ts
++++ b/src/api.ts
+@@ -1 +1 @@
+-export const timeout = 1000;
++export const timeout = 5000;`;
+
+// a provider answering with `answer` to both OpenAI and Ollama requests, counting the requests it gets
+let answer = 'feat: real answer';
+let requestCount = 0;
+
+const server = createServer((request, response) => {
+  requestCount++;
+  request.resume();
+  request.on('end', () => {
+    response.setHeader('content-type', 'application/json');
+    response.end(
+      JSON.stringify({
+        choices: [
+          { finish_reason: 'stop', index: 0, message: { content: answer, role: 'assistant' } }
+        ],
+        created: 0,
+        id: 'chatcmpl-test',
+        // what Ollama answers
+        message: { content: answer, role: 'assistant' },
+        model: 'gpt-4o',
+        object: 'chat.completion',
+        usage: { completion_tokens: 5, prompt_tokens: 50, total_tokens: 55 }
+      })
+    );
+  });
+});
+
+let baseUrl = '';
+
+const getConfig = (config: ConfigType = {}): ConfigType => ({
+  OCO_AI_PROVIDER: AI_PROVIDER.openai,
+  OCO_CASSETTE_PATH: pathJoin(home, 'cassette.json'),
+  OCO_OPENAI_API_KEY: 'sk-test',
+  OCO_OPENAI_BASE_PATH: `${baseUrl}/v1`,
+  ...config
+});
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  rmSync(home, { force: true, recursive: true });
+});
+
+test('a stubbed message is never returned to a run against the provider', async () => {
+  const stubbed = await generateCommitMessageByDiff(DIFF, {
+    cache: true,
+    config: getConfig({ OCO_CASSETTE_MODE: CASSETTE_MODE.stub })
+  });
+  assert.equal(stubbed, DEFAULT_CASSETTE_STUB_RESPONSE);
+
+  const real = await generateCommitMessageByDiff(DIFF, { cache: true, config: getConfig() });
+  assert.equal(real, 'feat: real answer');
+  assert.equal(requestCount, 1);
+});
+
+test('a replayed message comes from the cassette, not from the cache', async () => {
+  // the real answer of the previous test is cached, the cassette records another one
+  answer = 'fix: recorded answer';
+  await generateCommitMessageByDiff(DIFF, {
+    cache: true,
+    config: getConfig({ OCO_CASSETTE_MODE: CASSETTE_MODE.record })
+  });
+
+  const replayed = await generateCommitMessageByDiff(DIFF, {
+    cache: true,
+    config: getConfig({ OCO_CASSETTE_MODE: CASSETTE_MODE.replay })
+  });
+  assert.equal(replayed, 'fix: recorded answer');
+
+  // and the recorded message isn't returned to a run against the provider either
+  const real = await generateCommitMessageByDiff(DIFF, { cache: true, config: getConfig() });
+  assert.equal(real, 'feat: real answer');
+});
+
+test('messages of another provider or base URL are not reused', async () => {
+  answer = 'feat: answer of another server';
+  const count = requestCount;
+
+  const otherBaseUrl = await generateCommitMessageByDiff(DIFF, {
+    cache: true,
+    config: getConfig({ OCO_OPENAI_BASE_PATH: `${baseUrl}/other/v1` })
+  });
+  assert.equal(otherBaseUrl, 'feat: answer of another server');
+
+  const otherProvider = await generateCommitMessageByDiff(DIFF, {
+    cache: true,
+    config: getConfig({ OCO_AI_PROVIDER: AI_PROVIDER.ollama, OCO_OLLAMA_API_URL: baseUrl })
+  });
+  assert.equal(otherProvider, 'feat: answer of another server');
+  assert.equal(requestCount, count + 2);
+});
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { splitDiff } from '../src/utils/merge-diffs';
+import { tokenCount } from '../src/utils/token-count';
+
+const MAX_TOKENS = 50;
+
+// lines longer than the limit, of characters that are several tokens each
+const LINES = {
+  cjk: `+const creatures = '${'魑魅魍魉饕餮'.repeat(60)}';`,
+  emoji: `+const reactions = '${'🎉🚀🔥✅'.repeat(60)}';`
+};
+
+for (const [name, line] of Object.entries(LINES)) {
+  test(`every piece of a long ${name} line fits`, () => {
+    const pieces = splitDiff(line, MAX_TOKENS);
+
+    assert.ok(pieces.length > 1);
+    for (const piece of pieces) assert.ok(tokenCount(piece) <= MAX_TOKENS, piece);
+
+    // nothing is lost, and characters made of two UTF-16 code units stay whole
+    assert.equal(pieces.join(''), line);
+    for (const piece of pieces) assert.equal(piece, piece.toWellFormed());
+  });
+}
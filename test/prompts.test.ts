@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join as pathJoin } from 'node:path';
+import { after, before, test } from 'node:test';
+import { execa } from 'execa';
+
+import type { AiEngine } from '../src/engine/engine';
+import { getMainCommitPrompt, getReduceCommitPrompt } from '../src/prompts';
+
+const COMMIT_MESSAGES = ['JIRA-12 Add the login form', 'JIRA-13 Validate the email address'];
+
+// prompts of the default module never call the provider
+const engine: AiEngine = { generateCommitMessage: async () => '' };
+
+const repository = mkdtempSync(pathJoin(tmpdir(), 'opencommit-prompts-'));
+
+before(async () => {
+  process.chdir(repository);
+  await execa('git', ['init', '--quiet']);
+
+  for (const message of COMMIT_MESSAGES) {
+    await execa('git', [
+      '-c',
+      'user.name=Jane Doe',
+      '-c',
+      'user.email=jane@example.com',
+      'commit',
+      '--allow-empty',
+      '--quiet',
+      '--message',
+      message
+    ]);
+  }
+});
+
+after(() => rmSync(repository, { force: true, recursive: true }));
+
+test('the reduce prompt keeps the recent commits of OCO_STYLE_FROM_HISTORY', async () => {
+  const config = { OCO_STYLE_FROM_HISTORY: 5 };
+
+  const mainPrompt = await getMainCommitPrompt(config, engine);
+  const reducePrompt = await getReduceCommitPrompt(config, engine);
+
+  // the main prompt is followed by the reduce instructions
+  assert.deepEqual(reducePrompt.slice(0, mainPrompt.length), mainPrompt);
+  assert.ok(reducePrompt.length > mainPrompt.length);
+
+  const historyMessage = reducePrompt.find(
+    ({ content }) => typeof content === 'string' && content.includes(COMMIT_MESSAGES[0])
+  );
+  assert.ok(historyMessage, 'the recent commit messages are missing');
+  assert.ok(String(historyMessage.content).includes(COMMIT_MESSAGES[1]));
+});